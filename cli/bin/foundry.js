@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// The CLI shares its types with the website's TypeScript sources, so it runs
+// through tsx rather than a separate build step. The website isn't an ES module
+// package, so its sources load through tsx's CommonJS hooks; without them Node
+// loads them with require() and fails on the modules' import cycles.
+import { register } from "tsx/esm/api";
+import { register as registerCommonJs } from "tsx/cjs/api";
+
+registerCommonJs();
+register();
+await import("../src/index.ts");
@@ -0,0 +1,170 @@
+import type {
+  Rig,
+  RigCategory,
+  RigIndex,
+  RigIndexEntry,
+  RigRepository,
+} from "../../website/src/lib/rigs/types";
+import { readJsonFile, writeJsonFile } from "./home";
+import { CliError } from "./output";
+
+const DEFAULT_SITE_URL = "http://localhost:3000";
+
+/**
+ * The AI Foundry site to talk to: --url, then $FOUNDRY_URL, then a local
+ * development server.
+ */
+export function getSiteUrl(override?: string): string {
+  return (override || process.env.FOUNDRY_URL || DEFAULT_SITE_URL).replace(/\/+$/, "");
+}
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: { "User-Agent": "foundry-cli", ...init?.headers },
+    });
+  } catch {
+    throw new CliError(`Could not reach ${new URL(url).origin}. Is the site URL right?`);
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: string };
+    if (data.error) return data.error;
+  } catch {
+    // Not a JSON error body
+  }
+  return `${response.status} ${response.statusText}`;
+}
+
+interface CachedIndex {
+  siteUrl: string;
+  etag: string;
+  index: RigIndex;
+}
+
+const INDEX_CACHE_FILE = "cache/index.json";
+
+/**
+ * Fetch the rig index, revalidating a cached copy with If-None-Match so
+ * unchanged indexes aren't downloaded again.
+ */
+export async function fetchRigIndex(siteUrl: string): Promise<RigIndex> {
+  const cached = await readJsonFile<CachedIndex>(INDEX_CACHE_FILE);
+  const usable = cached?.siteUrl === siteUrl ? cached : null;
+
+  const response = await request(`${siteUrl}/api/v1/index.json`, {
+    headers: usable ? { "If-None-Match": usable.etag } : {},
+  });
+
+  if (response.status === 304 && usable) {
+    return usable.index;
+  }
+  if (!response.ok) {
+    throw new CliError(`Failed to fetch the rig index: ${await errorMessage(response)}`);
+  }
+
+  const index = (await response.json()) as RigIndex;
+  const etag = response.headers.get("etag");
+  if (etag) {
+    await writeJsonFile(INDEX_CACHE_FILE, { siteUrl, etag, index } satisfies CachedIndex);
+  }
+  return index;
+}
+
+/**
+ * Look up a rig in the index by slug.
+ */
+export async function findRig(siteUrl: string, slug: string): Promise<RigIndexEntry> {
+  const index = await fetchRigIndex(siteUrl);
+  const rig = index.rigs.find((entry) => entry.slug === slug);
+  if (!rig) {
+    throw new CliError(`No rig named "${slug}". Try \`foundry search\`.`);
+  }
+  return rig;
+}
+
+/** A rig as returned by GET /api/rigs, with dates serialized as strings */
+export type RigSearchResult = Omit<Rig, "createdAt" | "updatedAt" | "reviewedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+};
+
+export interface RigSearchPage {
+  rigs: RigSearchResult[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export interface RigSearchOptions {
+  query?: string;
+  category?: RigCategory;
+  tag?: string;
+  limit?: number;
+}
+
+/**
+ * Search the catalog with the site's own search (GET /api/rigs).
+ */
+export async function searchRigs(
+  siteUrl: string,
+  { query, category, tag, limit }: RigSearchOptions
+): Promise<RigSearchPage> {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (category) params.set("category", category);
+  if (tag) params.set("tag", tag);
+  if (limit) params.set("limit", String(limit));
+
+  const response = await request(`${siteUrl}/api/rigs?${params}`);
+  if (!response.ok) {
+    throw new CliError(`Search failed: ${await errorMessage(response)}`);
+  }
+  return (await response.json()) as RigSearchPage;
+}
+
+/**
+ * Raw URL of a file in the rig's folder. Mirrors getRawFileUrl and the
+ * repository providers in the website, which the CLI can't import at runtime
+ * without the site's dependencies. Local rigs are served by the site itself.
+ */
+export function getRawFileUrl(
+  repo: RigRepository,
+  fileName: string,
+  ref: string,
+  siteUrl: string
+): string {
+  const repoPath = `${repo.owner}/${repo.name}`;
+  let rawBase: string;
+  switch (repo.provider ?? "github") {
+    case "gitlab":
+      rawBase = `https://${repo.host ?? "gitlab.com"}/${repoPath}/-/raw/${ref}`;
+      break;
+    case "bitbucket":
+      rawBase = `https://bitbucket.org/${repoPath}/raw/${ref}`;
+      break;
+    case "git":
+      rawBase = `https://${repo.host}/${repoPath}/raw/${ref}`;
+      break;
+    case "file":
+      rawBase = `${siteUrl}/api/local-files`;
+      break;
+    default:
+      rawBase = `https://raw.githubusercontent.com/${repoPath}/${ref}`;
+  }
+  return `${rawBase}/${repo.path}/${fileName}`;
+}
+
+/**
+ * Download a file's exact bytes.
+ */
+export async function downloadFile(url: string): Promise<Buffer> {
+  const response = await request(url);
+  if (!response.ok) {
+    throw new CliError(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
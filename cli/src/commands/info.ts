@@ -0,0 +1,84 @@
+import { parseArgs } from "node:util";
+import { findRig, getSiteUrl } from "../api";
+import { bold, CliError, cyan, dim, heading, wrap } from "../output";
+
+export const infoUsage = `Usage: foundry info <slug>
+
+Show what a rig does, what it needs, what its installer does and how to
+check it worked.`;
+
+export async function infoCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { url: { type: "string" } },
+  });
+
+  const [slug] = positionals;
+  if (!slug) throw new CliError(infoUsage);
+
+  const rig = await findRig(getSiteUrl(values.url), slug);
+  const config = rig.config;
+
+  console.log(`${bold(rig.name)}${config ? dim(` v${config.version}`) : ""}`);
+  console.log(rig.tagline);
+  console.log(
+    dim(
+      [rig.category, rig.difficulty, rig.readiness, `by ${rig.submittedBy}`]
+        .filter(Boolean)
+        .join(" · ")
+    )
+  );
+  console.log(dim(rig.urls.page));
+
+  heading("About");
+  console.log(wrap(rig.description));
+
+  if (!config) {
+    console.log(
+      `\n${dim("This rig's config.json couldn't be loaded, so its details aren't available.")}`
+    );
+  } else {
+    if (config.whatItDoes) {
+      heading("What It Does");
+      console.log(wrap(config.whatItDoes));
+    }
+
+    if (config.prerequisites.length > 0) {
+      heading("Prerequisites");
+      for (const prereq of config.prerequisites) {
+        console.log(`  - ${bold(prereq.name)}${prereq.link ? dim(` ${prereq.link}`) : ""}`);
+        console.log(wrap(prereq.description, 4));
+      }
+    }
+
+    if (config.installerActions.length > 0) {
+      heading("What the Installer Does");
+      config.installerActions.forEach((action, i) => {
+        console.log(`  ${i + 1}. ${bold(action.label)}`);
+        console.log(wrap(action.detail, 5));
+      });
+    }
+
+    if (config.verificationSteps.length > 0) {
+      heading("Verifying It Works");
+      config.verificationSteps.forEach((step, i) => {
+        console.log(`  ${i + 1}. ${step.instruction}`);
+        console.log(wrap(`Expected: ${step.expectedResult}`, 5));
+      });
+    }
+
+    const files = config.files.filter((file) => file.installPath);
+    if (files.length > 0) {
+      heading("Files");
+      for (const file of files) {
+        console.log(`  - ${file.name} ${dim(`-> ${file.installPath}`)}`);
+      }
+    }
+  }
+
+  heading("Install");
+  console.log(`  ${cyan(`foundry install ${rig.slug}`)}`);
+  console.log(dim(`  or: ${rig.install.bash}`));
+  console.log(dim(`  or: ${rig.install.powershell}`));
+}
@@ -0,0 +1,164 @@
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readdir, realpath, writeFile } from "node:fs/promises";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { parseArgs } from "node:util";
+import type { RigCategory, RigConfig } from "../../../website/src/lib/rigs/types";
+import { getCurrentBranch, getGitHubRemote, getGitRoot } from "../git";
+import { bold, CliError, cyan, dim, green } from "../output";
+import { loadRigTools } from "../rig-tools";
+import { installPs1Template, installShTemplate, readmeTemplate } from "../templates";
+
+export const initUsage = `Usage: foundry init <slug> [--name <name>] [--category <category>] [--dir <path>]
+
+Create a rig folder with a config.json, install.sh and install.ps1 skeletons
+and a README. The repository in config.json is filled in from git.
+
+Options:
+  --name       Display name (default: from the slug)
+  --category   Category slug, such as ci-cd, coding or automation; an
+               unknown one is rejected on submission (default: automation)
+  --dir        Folder to create (default: rigs/<slug> in the git repository
+               if it has a rigs folder, otherwise ./<slug>)`;
+
+function titleCase(slug: string): string {
+  return slug
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function defaultDir(slug: string, gitRoot: string | null): string {
+  if (gitRoot && existsSync(join(gitRoot, "rigs"))) {
+    return join(gitRoot, "rigs", slug);
+  }
+  return resolve(slug);
+}
+
+/**
+ * Root of the git repository that will hold `dir`, found from its nearest
+ * existing ancestor since `dir` may not exist yet, along with `dir` relative
+ * to that root. Null when no repository contains `dir`.
+ */
+async function findRigRepository(dir: string): Promise<{ root: string; path: string } | null> {
+  let existing = dir;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  const root = await getGitRoot(existing);
+  if (!root) return null;
+
+  // git reports the root with symlinks resolved, so resolve dir's too
+  const target = join(await realpath(existing), relative(existing, dir));
+  const path = relative(root, target);
+  if (path === "" || path.startsWith("..") || isAbsolute(path)) return null;
+  return { root, path: path.split(sep).join("/") };
+}
+
+export async function initCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      category: { type: "string", default: "automation" },
+      dir: { type: "string" },
+    },
+  });
+
+  const [slug] = positionals;
+  if (!slug) throw new CliError(initUsage);
+
+  const { parseRigConfig, buildInstallCommands } = await loadRigTools();
+
+  const gitRoot = await getGitRoot(process.cwd());
+  const dir = values.dir ? resolve(values.dir) : defaultDir(slug, gitRoot);
+  if (existsSync(dir) && (await readdir(dir)).length > 0) {
+    throw new CliError(`${dir} already exists and isn't empty.`);
+  }
+
+  // Only use a repository that will actually hold the rig, never the one the
+  // command happens to run in
+  const found = await findRigRepository(dir);
+  const remote = found ? await getGitHubRemote(found.root) : null;
+  const repository = {
+    owner: remote?.owner ?? "OWNER",
+    name: remote?.name ?? "REPO",
+    branch: (found && (await getCurrentBranch(found.root))) ?? "main",
+    // Outside a repository, assume the rig folder becomes one of its own
+    path: found?.path ?? "",
+  };
+  const filePath = (file: string) => (repository.path ? `${repository.path}/${file}` : file);
+  const name = values.name ?? titleCase(slug);
+
+  const draft: RigConfig = {
+    name,
+    slug,
+    version: "0.1.0",
+    tagline: "TODO: one line on what the rig sets up",
+    description: "TODO: a paragraph on what the rig is and who it's for",
+    category: values.category as RigCategory,
+    tags: [],
+    difficulty: "beginner",
+    status: "experimental",
+    repository,
+    credits: {
+      name,
+      description: "TODO: credit the tools or guides this rig is based on",
+      url: `https://github.com/${repository.owner}/${repository.name}`,
+    },
+    whatItDoes: "TODO: explain what happens once the rig is installed",
+    useCases: [],
+    prerequisites: [],
+    installerActions: [
+      {
+        label: "Check prerequisites",
+        detail: "Verifies that git is installed.",
+      },
+    ],
+    verificationSteps: [],
+    files: [
+      {
+        name: "install.ps1",
+        description: "One-command installer for Windows (PowerShell)",
+        path: filePath("install.ps1"),
+      },
+      {
+        name: "install.sh",
+        description: "One-command installer for macOS/Linux (Bash)",
+        path: filePath("install.sh"),
+      },
+    ],
+    install: buildInstallCommands(repository),
+  };
+
+  // Catch a bad slug or category before writing anything
+  const parsed = parseRigConfig(draft);
+  if (parsed.issues) {
+    throw new CliError(
+      parsed.issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n")
+    );
+  }
+  const config = parsed.config;
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "config.json"), `${JSON.stringify(config, null, 2)}\n`);
+  await writeFile(join(dir, "install.sh"), installShTemplate(config));
+  await chmod(join(dir, "install.sh"), 0o755);
+  await writeFile(join(dir, "install.ps1"), installPs1Template(config));
+  await writeFile(join(dir, "README.md"), readmeTemplate(config));
+
+  console.log(green(`Created ${bold(name)} in ${dir}`));
+  for (const file of ["config.json", "install.sh", "install.ps1", "README.md"]) {
+    console.log(dim(`  ${file}`));
+  }
+  if (!found) {
+    console.log(
+      `\n${dir} isn't in a git repository, so config.json uses OWNER/REPO and the main branch, with the rig at the repository root. Fill in ${bold("repository")} before submitting.`
+    );
+  } else if (!remote) {
+    console.log(
+      `\nCouldn't find a GitHub remote, so config.json uses OWNER/REPO. Fill in ${bold("repository")} before submitting.`
+    );
+  }
+  console.log(`\nReplace the TODOs, then run ${cyan(`foundry validate ${relative(process.cwd(), dir) || "."}`)}.`);
+}
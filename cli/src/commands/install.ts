@@ -0,0 +1,194 @@
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import type {
+  InstallScriptName,
+  RigIndexEntry,
+  RigInstaller,
+} from "../../../website/src/lib/rigs/types";
+import { downloadFile, findRig, getRawFileUrl, getSiteUrl } from "../api";
+import { recordInstall } from "../home";
+import { bold, CliError, dim, green, heading, wrap, yellow } from "../output";
+
+export const installUsage = `Usage: foundry install <slug> [--shell bash|powershell] [--yes]
+
+Download a rig's install script, show it, and run it in the current directory
+once you confirm. Scripts are taken from the commit the rig was pinned to and
+checked against their SHA-256 when the site has one.
+
+Options:
+  --shell   Installer to use (default: powershell on Windows, bash elsewhere)
+  --yes     Run without asking for confirmation`;
+
+/**
+ * Tells the script which ref it came from; the same name as INSTALL_REF_ENV
+ * in the website's types, which the install command can't load
+ */
+const INSTALL_REF_ENV = "AI_FOUNDRY_REF";
+
+const scriptNames: Record<RigInstaller, InstallScriptName> = {
+  bash: "install.sh",
+  powershell: "install.ps1",
+};
+
+interface DownloadedScript {
+  name: InstallScriptName;
+  content: Buffer;
+  /** Commit the script came from, or null if it's the branch's current copy */
+  commitSha: string | null;
+}
+
+/**
+ * Download the install script, preferring the pinned commit. A pinned script
+ * that doesn't match its hash is never returned.
+ */
+async function downloadScript(
+  rig: RigIndexEntry,
+  installer: RigInstaller,
+  siteUrl: string
+): Promise<DownloadedScript> {
+  const name = scriptNames[installer];
+  const pin = rig.verifiedInstall;
+  const expectedHash = pin?.scriptHashes[name];
+
+  if (!pin || !expectedHash) {
+    const content = await downloadFile(
+      getRawFileUrl(rig.repository, name, rig.repository.branch, siteUrl)
+    );
+    return { name, content, commitSha: null };
+  }
+
+  const content = await downloadFile(
+    getRawFileUrl(rig.repository, name, pin.commitSha, siteUrl)
+  );
+  const hash = createHash("sha256").update(content).digest("hex");
+  if (hash !== expectedHash) {
+    throw new CliError(
+      `${name} at ${pin.commitSha.slice(0, 7)} does not match its pinned SHA-256 -- not running it.\n` +
+        `  expected ${expectedHash}\n  got      ${hash}`
+    );
+  }
+  return { name, content, commitSha: pin.commitSha };
+}
+
+function printScript(script: DownloadedScript) {
+  const lines = script.content.toString("utf8").replace(/\r?\n$/, "").split(/\r?\n/);
+  const width = String(lines.length).length;
+
+  heading(script.name);
+  lines.forEach((line, i) => {
+    console.log(`${dim(String(i + 1).padStart(width))}  ${line}`);
+  });
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await readline.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    readline.close();
+  }
+}
+
+function runScript(installer: RigInstaller, file: string, ref: string): Promise<number> {
+  const [command, args] =
+    installer === "bash"
+      ? ["bash", [file]]
+      : [
+          process.platform === "win32" ? "powershell.exe" : "pwsh",
+          ["-NoProfile", "-ExecutionPolicy", "Bypass", "-File", file],
+        ];
+
+  return new Promise((resolve, reject) => {
+    // The script fetches the rest of the rig's files from the same ref
+    const child = spawn(command, args, {
+      stdio: "inherit",
+      cwd: process.cwd(),
+      env: { ...process.env, [INSTALL_REF_ENV]: ref },
+    });
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        error.code === "ENOENT"
+          ? new CliError(`${command} was not found. Install it or pick another --shell.`)
+          : error
+      )
+    );
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
+export async function installCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      shell: { type: "string" },
+      yes: { type: "boolean", short: "y", default: false },
+      url: { type: "string" },
+    },
+  });
+
+  const [slug] = positionals;
+  if (!slug) throw new CliError(installUsage);
+
+  const installer = (values.shell ?? (process.platform === "win32" ? "powershell" : "bash")) as RigInstaller;
+  if (!(installer in scriptNames)) {
+    throw new CliError(`Unknown shell "${values.shell}". Use bash or powershell.`);
+  }
+  if (!values.yes && !process.stdin.isTTY) {
+    throw new CliError("Not running interactively. Pass --yes to install without confirming.");
+  }
+
+  const siteUrl = getSiteUrl(values.url);
+  const rig = await findRig(siteUrl, slug);
+  const script = await downloadScript(rig, installer, siteUrl);
+
+  if (rig.config && rig.config.installerActions.length > 0) {
+    heading("What the Installer Does");
+    rig.config.installerActions.forEach((action, i) => {
+      console.log(`  ${i + 1}. ${bold(action.label)}`);
+      console.log(wrap(action.detail, 5));
+    });
+  }
+  printScript(script);
+  console.log();
+  console.log(
+    script.commitSha
+      ? green(`Verified against the SHA-256 pinned at commit ${script.commitSha.slice(0, 7)}.`)
+      : yellow(`Not pinned: this is the current ${script.name} on ${rig.repository.branch} and can't be verified.`)
+  );
+
+  if (!values.yes && !(await confirm(`Run ${script.name} in ${process.cwd()}?`))) {
+    console.log("Cancelled.");
+    return;
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "foundry-"));
+  try {
+    const file = join(dir, script.name);
+    await writeFile(file, script.content);
+
+    const code = await runScript(installer, file, script.commitSha ?? rig.repository.branch);
+    if (code !== 0) {
+      throw new CliError(`${script.name} exited with code ${code}.`);
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  await recordInstall({
+    slug: rig.slug,
+    name: rig.name,
+    version: rig.config?.version ?? rig.latestVersion?.version ?? null,
+    commitSha: script.commitSha,
+    installer,
+    directory: process.cwd(),
+    installedAt: new Date().toISOString(),
+  });
+  console.log(green(`\nInstalled ${rig.name}.`));
+}
@@ -0,0 +1,33 @@
+import { parseArgs } from "node:util";
+import { getInstalledRigs } from "../home";
+import { bold, dim } from "../output";
+
+export const listInstalledUsage = `Usage: foundry list-installed [--here]
+
+List rigs installed with \`foundry install\`. Pass --here to only show rigs
+installed in the current directory.`;
+
+export async function listInstalledCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: { here: { type: "boolean", default: false } },
+  });
+
+  const installed = (await getInstalledRigs())
+    .filter((rig) => !values.here || rig.directory === process.cwd())
+    .sort((a, b) => b.installedAt.localeCompare(a.installedAt));
+
+  if (installed.length === 0) {
+    console.log("No rigs installed yet. Find one with `foundry search`.");
+    return;
+  }
+
+  for (const rig of installed) {
+    const version = rig.version ? ` v${rig.version}` : "";
+    const commit = rig.commitSha ? ` @ ${rig.commitSha.slice(0, 7)}` : "";
+    console.log(`${bold(rig.slug)}${version}${dim(commit)}`);
+    console.log(
+      dim(`  ${rig.directory} -- ${rig.installer}, ${new Date(rig.installedAt).toLocaleString()}`)
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { parseArgs } from "node:util";
+import type { RigCategory } from "../../../website/src/lib/rigs/types";
+import { fetchRigIndex, getSiteUrl, searchRigs } from "../api";
+import { bold, CliError, dim } from "../output";
+
+export const searchUsage = `Usage: foundry search [query] [--category <category>] [--tag <tag>] [--limit <n>]
+
+Search the catalog by name, tagline, description and tags. Categories are
+managed on the site; an unknown --category lists the available ones.`;
+
+export async function searchCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      category: { type: "string" },
+      tag: { type: "string" },
+      limit: { type: "string", default: "20" },
+      url: { type: "string" },
+    },
+  });
+
+  const limit = Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new CliError("--limit must be a positive whole number");
+  }
+
+  const siteUrl = getSiteUrl(values.url);
+  const category = values.category as RigCategory | undefined;
+  if (category) {
+    const { categories } = await fetchRigIndex(siteUrl);
+    if (!categories.some((c) => c.slug === category)) {
+      throw new CliError(
+        `Unknown category "${category}". Use one of: ${categories.map((c) => c.slug).join(", ")}`
+      );
+    }
+  }
+
+  const page = await searchRigs(siteUrl, {
+    query: positionals.join(" "),
+    category,
+    tag: values.tag,
+    limit,
+  });
+
+  if (page.rigs.length === 0) {
+    console.log("No rigs found.");
+    return;
+  }
+
+  for (const rig of page.rigs) {
+    console.log(`${bold(rig.slug)}  ${rig.name} ${dim(`(${rig.category})`)}`);
+    console.log(`  ${rig.tagline}`);
+    console.log(
+      dim(`  ${rig.installCount} installs, ${rig.starCount} stars${rig.tags.length > 0 ? ` -- ${rig.tags.join(", ")}` : ""}`)
+    );
+  }
+
+  if (page.total > page.rigs.length) {
+    console.log(dim(`\nShowing ${page.rigs.length} of ${page.total}. Use --limit to see more.`));
+  }
+  console.log(dim("\nRun `foundry info <slug>` for details."));
+}
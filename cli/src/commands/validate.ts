@@ -0,0 +1,156 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, join, relative, resolve, sep } from "node:path";
+import { parseArgs } from "node:util";
+import type { RigConfig } from "../../../website/src/lib/rigs/types";
+import { branchExists, getGitHubRemote, getGitRoot } from "../git";
+import { CliError, green, red, yellow } from "../output";
+import { loadRigTools } from "../rig-tools";
+
+export const validateUsage = `Usage: foundry validate [dir]
+
+Check a rig folder (default: the current directory) before submitting it:
+config.json matches the rig schema, every listed file exists, the install
+commands are the ones the site would generate, and the repository points at
+this folder.`;
+
+interface Problem {
+  level: "error" | "warning";
+  message: string;
+}
+
+/**
+ * Collect every string in the config whose text still has a TODO from
+ * `foundry init`.
+ */
+function findTodos(value: unknown, path: string, found: string[]) {
+  if (typeof value === "string") {
+    if (value.includes("TODO")) found.push(path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => findTodos(item, `${path}.${i}`, found));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      findTodos(item, path ? `${path}.${key}` : key, found);
+    }
+  }
+}
+
+async function checkRig(
+  dir: string,
+  config: RigConfig,
+  buildInstallCommands: (repo: RigConfig["repository"]) => RigConfig["install"]
+): Promise<Problem[]> {
+  const problems: Problem[] = [];
+  const error = (message: string) => problems.push({ level: "error", message });
+  const warning = (message: string) => problems.push({ level: "warning", message });
+
+  if (config.slug !== basename(dir)) {
+    warning(`slug "${config.slug}" doesn't match the folder name "${basename(dir)}"`);
+  }
+
+  // Repository: the site fetches everything from repository.path on branch
+  const gitRoot = await getGitRoot(dir);
+  const repo = config.repository;
+  if (!gitRoot) {
+    warning("Not in a git repository, so repository can't be checked");
+  } else {
+    const folderPath = relative(gitRoot, dir).split(sep).join("/");
+    if (repo.path !== folderPath) {
+      error(`repository.path is "${repo.path}" but this folder is at "${folderPath}"`);
+    }
+
+    const remote = await getGitHubRemote(gitRoot);
+    if (!remote) {
+      warning("No GitHub remote named origin, so repository.owner and repository.name can't be checked");
+    } else if (
+      remote.owner.toLowerCase() !== repo.owner.toLowerCase() ||
+      remote.name.toLowerCase() !== repo.name.toLowerCase()
+    ) {
+      error(`repository is ${repo.owner}/${repo.name} but origin is ${remote.owner}/${remote.name}`);
+    }
+
+    if (!(await branchExists(gitRoot, repo.branch))) {
+      warning(`Branch "${repo.branch}" doesn't exist locally or on origin`);
+    }
+  }
+
+  // Files are listed by path from the repository root
+  const root = gitRoot ?? dir;
+  for (const file of config.files) {
+    if (!file.path) continue;
+
+    // An empty repository.path puts the rig at the repository root
+    const sitePath = repo.path ? `${repo.path}/${file.name}` : file.name;
+    if (!existsSync(join(root, file.path))) {
+      error(`files: ${file.name} has path "${file.path}", which doesn't exist`);
+    } else if (file.path !== sitePath) {
+      warning(`files: ${file.name} is at "${file.path}", but the site shows it from "${sitePath}"`);
+    }
+  }
+
+  const hasSh = existsSync(join(dir, "install.sh"));
+  const hasPs1 = existsSync(join(dir, "install.ps1"));
+  if (!hasSh && !hasPs1) {
+    error("No install.sh or install.ps1 in the rig folder");
+  } else if (!hasSh || !hasPs1) {
+    warning(`No ${hasSh ? "install.ps1" : "install.sh"}, so the rig can't be installed on ${hasSh ? "Windows" : "macOS or Linux"}`);
+  }
+
+  const expected = buildInstallCommands(repo);
+  for (const installer of ["bash", "powershell"] as const) {
+    if (config.install[installer] !== expected[installer]) {
+      error(`install.${installer} should be: ${expected[installer]}`);
+    }
+  }
+
+  const todos: string[] = [];
+  findTodos(config, "", todos);
+  for (const path of todos) {
+    warning(`${path} still has a TODO`);
+  }
+
+  return problems;
+}
+
+export async function validateCommand(args: string[]): Promise<void> {
+  const { positionals } = parseArgs({ args, allowPositionals: true });
+  const dir = resolve(positionals[0] ?? ".");
+  const { parseRigConfig, buildInstallCommands } = await loadRigTools();
+
+  let raw: string;
+  try {
+    raw = await readFile(join(dir, "config.json"), "utf8");
+  } catch {
+    throw new CliError(`No config.json in ${dir}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new CliError(`config.json is not valid JSON: ${(error as Error).message}`);
+  }
+
+  // The other checks need a well-formed config, so stop at schema errors
+  const parsed = parseRigConfig(data);
+  const problems: Problem[] = parsed.issues
+    ? parsed.issues.map((issue) => ({ level: "error", message: `${issue.path}: ${issue.message}` }))
+    : await checkRig(dir, parsed.config, buildInstallCommands);
+
+  for (const problem of problems) {
+    console.log(
+      problem.level === "error"
+        ? `${red("error")}    ${problem.message}`
+        : `${yellow("warning")}  ${problem.message}`
+    );
+  }
+
+  const errors = problems.filter((problem) => problem.level === "error").length;
+  const warnings = problems.length - errors;
+  if (errors > 0) {
+    throw new CliError(`\n${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`);
+  }
+  console.log(
+    green(`${problems.length > 0 ? "\n" : ""}${basename(dir)} is valid${warnings > 0 ? ` (${warnings} warning${warnings === 1 ? "" : "s"})` : ""}`)
+  );
+}
@@ -0,0 +1,42 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const run = promisify(execFile);
+
+async function git(cwd: string, ...args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await run("git", args, { cwd });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Root of the git work tree containing `dir`, or null outside a repository.
+ */
+export function getGitRoot(dir: string): Promise<string | null> {
+  return git(dir, "rev-parse", "--show-toplevel");
+}
+
+/**
+ * Owner and name of the GitHub repository `origin` points at, or null if
+ * there's no origin or it isn't on GitHub.
+ */
+export async function getGitHubRemote(dir: string): Promise<{ owner: string; name: string } | null> {
+  const url = await git(dir, "remote", "get-url", "origin");
+  const match = url?.match(/github\.com[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], name: match[2] } : null;
+}
+
+export function getCurrentBranch(dir: string): Promise<string | null> {
+  return git(dir, "symbolic-ref", "--short", "HEAD");
+}
+
+/**
+ * Whether `branch` exists locally or on origin.
+ */
+export async function branchExists(dir: string, branch: string): Promise<boolean> {
+  const refs = await git(dir, "for-each-ref", "--format=%(refname:short)", `refs/heads/${branch}`, `refs/remotes/origin/${branch}`);
+  return Boolean(refs);
+}
@@ -0,0 +1,66 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { RigInstaller } from "../../website/src/lib/rigs/types";
+
+/**
+ * Directory the CLI keeps its state in: ~/.foundry, or $FOUNDRY_HOME.
+ */
+export function getFoundryHome(): string {
+  return process.env.FOUNDRY_HOME || join(homedir(), ".foundry");
+}
+
+/**
+ * Read a JSON file from the foundry home, or null if it doesn't exist or
+ * can't be parsed.
+ */
+export async function readJsonFile<T>(name: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(join(getFoundryHome(), name), "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const path = join(getFoundryHome(), name);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * A rig installed with `foundry install`.
+ */
+export interface InstalledRig {
+  slug: string;
+  name: string;
+  /** Version from the rig's config.json at install time, if known */
+  version: string | null;
+  /** Commit the install script was downloaded from, or null for the branch */
+  commitSha: string | null;
+  installer: RigInstaller;
+  /** Directory the installer ran in */
+  directory: string;
+  /** ISO 8601 timestamp */
+  installedAt: string;
+}
+
+const INSTALLED_FILE = "installed.json";
+
+export async function getInstalledRigs(): Promise<InstalledRig[]> {
+  return (await readJsonFile<InstalledRig[]>(INSTALLED_FILE)) ?? [];
+}
+
+/**
+ * Record an install, replacing any earlier install of the same rig in the
+ * same directory.
+ */
+export async function recordInstall(install: InstalledRig): Promise<void> {
+  const installed = await getInstalledRigs();
+  await writeJsonFile(INSTALLED_FILE, [
+    ...installed.filter(
+      (rig) => rig.slug !== install.slug || rig.directory !== install.directory
+    ),
+    install,
+  ]);
+}
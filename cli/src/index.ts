@@ -0,0 +1,64 @@
+import { infoCommand, infoUsage } from "./commands/info";
+import { initCommand, initUsage } from "./commands/init";
+import { installCommand, installUsage } from "./commands/install";
+import { listInstalledCommand, listInstalledUsage } from "./commands/list-installed";
+import { searchCommand, searchUsage } from "./commands/search";
+import { validateCommand, validateUsage } from "./commands/validate";
+import { CliError, red } from "./output";
+
+const commands: Record<string, { run: (args: string[]) => Promise<void>; usage: string }> = {
+  search: { run: searchCommand, usage: searchUsage },
+  info: { run: infoCommand, usage: infoUsage },
+  install: { run: installCommand, usage: installUsage },
+  "list-installed": { run: listInstalledCommand, usage: listInstalledUsage },
+  init: { run: initCommand, usage: initUsage },
+  validate: { run: validateCommand, usage: validateUsage },
+};
+
+const usage = `Usage: foundry <command> [options]
+
+Commands:
+  search [query]      Search the rig catalog
+  info <slug>         Show a rig's details
+  install <slug>      Download, review and run a rig's installer
+  list-installed      List rigs installed with foundry
+
+Authoring:
+  init <slug>         Create a new rig folder
+  validate [dir]      Check a rig folder before submitting it
+
+Options:
+  --url <url>         AI Foundry site to use (default: $FOUNDRY_URL or http://localhost:3000)
+  --help              Show help for a command`;
+
+async function main(argv: string[]): Promise<void> {
+  const [name, ...args] = argv;
+
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    console.log(usage);
+    return;
+  }
+
+  const command = commands[name];
+  if (!command) {
+    throw new CliError(`Unknown command "${name}".\n\n${usage}`);
+  }
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(command.usage);
+    return;
+  }
+
+  await command.run(args);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof CliError) {
+    console.error(red(error.message));
+  } else if (error instanceof Error && "code" in error && String(error.code).startsWith("ERR_PARSE_ARGS")) {
+    // Unknown or malformed options from parseArgs
+    console.error(red(error.message));
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
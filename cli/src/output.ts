@@ -0,0 +1,55 @@
+/**
+ * Terminal output helpers. Colors are only used on a TTY and respect NO_COLOR.
+ */
+
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+
+function style(open: number, close: number) {
+  return (text: string) => (useColor ? `\x1b[${open}m${text}\x1b[${close}m` : text);
+}
+
+export const bold = style(1, 22);
+export const dim = style(2, 22);
+export const red = style(31, 39);
+export const green = style(32, 39);
+export const yellow = style(33, 39);
+export const cyan = style(36, 39);
+
+/**
+ * An error with a message meant for the user; the CLI prints it without a
+ * stack trace.
+ */
+export class CliError extends Error {}
+
+/**
+ * Print a bold section heading after a blank line.
+ */
+export function heading(title: string) {
+  console.log(`\n${bold(title)}`);
+}
+
+/**
+ * Word-wrap text to the terminal width, indenting every line.
+ */
+export function wrap(text: string, indent = 0): string {
+  const width = Math.max(40, (process.stdout.columns ?? 80) - indent);
+  const pad = " ".repeat(indent);
+
+  return text
+    .split("\n")
+    .map((paragraph) => {
+      const lines: string[] = [];
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + word.length + 1 > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = line ? `${line} ${word}` : word;
+        }
+      }
+      lines.push(line);
+      return lines.map((l) => pad + l).join("\n");
+    })
+    .join("\n");
+}
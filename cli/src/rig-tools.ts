@@ -0,0 +1,26 @@
+import { CliError } from "./output";
+
+/**
+ * Load the website's rig config schema and install command builder. They need
+ * the website's dependencies, so they're only loaded by the authoring
+ * commands, when those run.
+ */
+export async function loadRigTools() {
+  try {
+    const [validation, types] = await Promise.all([
+      import("../../website/src/lib/rigs/validation"),
+      import("../../website/src/lib/rigs/types"),
+    ]);
+    return {
+      parseRigConfig: validation.parseRigConfig,
+      buildInstallCommands: types.buildInstallCommands,
+    };
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ERR_MODULE_NOT_FOUND") {
+      throw new CliError(
+        "This command uses the website's rig schema. Run `npm install` in website/ first."
+      );
+    }
+    throw error;
+  }
+}
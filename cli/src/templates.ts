@@ -0,0 +1,204 @@
+import type { RigConfig } from "../../website/src/lib/rigs/types";
+
+/**
+ * Starter files for `foundry init`. The scripts follow the layout of the rigs
+ * in this repository: a header, a version, step helpers, the opt-in install
+ * report, then numbered steps.
+ */
+
+export function installShTemplate(config: RigConfig): string {
+  return `#!/usr/bin/env bash
+#
+# One-command installer for the ${config.name} rig.
+#
+# Run via:
+#   ${config.install.bash}
+#
+# The script will:
+#   1. Check prerequisites
+#   2. TODO: describe what the installer does
+#
+# Requires: TODO: list what the installer needs
+
+set -euo pipefail
+
+# Version number -- increment this when making changes
+SCRIPT_VERSION="${config.version}"
+
+# Colors
+RED='\\033[0;31m'
+GREEN='\\033[0;32m'
+YELLOW='\\033[1;33m'
+CYAN='\\033[0;36m'
+NC='\\033[0m'
+
+step()  { echo -e "\\n\${CYAN}--- $1\${NC}"; }
+ok()    { echo -e "    \${GREEN}OK: $1\${NC}"; }
+warn()  { echo -e "    \${YELLOW}WARN: $1\${NC}"; }
+fail()  { echo -e "    \${RED}FAIL: $1\${NC}"; exit 1; }
+
+echo ""
+echo -e "\${CYAN}========================================\${NC}"
+echo -e "\${CYAN}  ${config.name}\${NC}"
+echo -e "\${CYAN}  One-command installer v\${SCRIPT_VERSION}\${NC}"
+echo -e "\${CYAN}========================================\${NC}"
+
+# -------------------------------------------------------
+# Install report (opt-in)
+# -------------------------------------------------------
+# Set AI_FOUNDRY_URL to the AI Foundry site you installed from to send it an
+# anonymous success/failure report. Nothing is sent otherwise.
+report_install() {
+    [[ -n "\${AI_FOUNDRY_URL:-}" ]] || return 0
+    curl -fsS -m 5 -X POST "\${AI_FOUNDRY_URL%/}/api/rigs/${config.slug}/installs" \\
+        -H "Content-Type: application/json" \\
+        -d "{\\"installer\\":\\"bash\\",\\"installerVersion\\":\\"$SCRIPT_VERSION\\",\\"success\\":$1}" \\
+        > /dev/null 2>&1 || true
+}
+trap 'if [[ $? -ne 0 ]]; then report_install false; fi' EXIT
+
+# -------------------------------------------------------
+# Step 1: Check prerequisites
+# -------------------------------------------------------
+step "Checking prerequisites"
+
+command -v git &> /dev/null || fail "git is not installed."
+ok "git found"
+
+# -------------------------------------------------------
+# Step 2: TODO
+# -------------------------------------------------------
+
+report_install true
+
+echo ""
+echo -e "\${GREEN}${config.name} installed.\${NC}"
+echo ""
+`;
+}
+
+export function installPs1Template(config: RigConfig): string {
+  return `<#
+.SYNOPSIS
+    One-command installer for the ${config.name} rig.
+
+.DESCRIPTION
+    This script is designed to be run via:
+
+        ${config.install.powershell}
+
+    The script will:
+    1. Check prerequisites
+    2. TODO: describe what the installer does
+
+.NOTES
+    Requires: TODO: list what the installer needs
+#>
+
+$ErrorActionPreference = "Stop"
+
+# Version number -- increment this when making changes
+$ScriptVersion = "${config.version}"
+
+function Write-Step {
+    param([string]$Message)
+    Write-Host ""
+    Write-Host "--- $Message" -ForegroundColor Cyan
+}
+
+function Write-Ok {
+    param([string]$Message)
+    Write-Host "    OK: $Message" -ForegroundColor Green
+}
+
+function Write-Warn {
+    param([string]$Message)
+    Write-Host "    WARN: $Message" -ForegroundColor Yellow
+}
+
+# Set AI_FOUNDRY_URL to the AI Foundry site you installed from to send it an
+# anonymous success/failure report. Nothing is sent otherwise.
+function Send-InstallReport {
+    param([bool]$Success)
+    if (-not $env:AI_FOUNDRY_URL) { return }
+    $body = @{
+        installer        = "powershell"
+        installerVersion = $ScriptVersion
+        success          = $Success
+    } | ConvertTo-Json -Compress
+    try {
+        Invoke-RestMethod -Method Post -Uri "$($env:AI_FOUNDRY_URL.TrimEnd('/'))/api/rigs/${config.slug}/installs" \`
+            -ContentType "application/json" -Body $body -TimeoutSec 5 | Out-Null
+    } catch {
+        # Reporting is best effort and must never break the install
+    }
+}
+
+function Write-Fail {
+    param([string]$Message)
+    Write-Host "    FAIL: $Message" -ForegroundColor Red
+    # Every failure in this installer is fatal
+    Send-InstallReport -Success $false
+}
+
+Write-Host ""
+Write-Host "========================================" -ForegroundColor Cyan
+Write-Host "  ${config.name}" -ForegroundColor Cyan
+Write-Host "  One-command installer v$ScriptVersion" -ForegroundColor Cyan
+Write-Host "========================================" -ForegroundColor Cyan
+
+# -------------------------------------------------------
+# Step 1: Check prerequisites
+# -------------------------------------------------------
+Write-Step "Checking prerequisites"
+
+if (-not (Get-Command git -ErrorAction SilentlyContinue)) {
+    Write-Fail "git is not installed."
+    return
+}
+Write-Ok "git found"
+
+# -------------------------------------------------------
+# Step 2: TODO
+# -------------------------------------------------------
+
+Send-InstallReport -Success $true
+
+Write-Host ""
+Write-Host "${config.name} installed." -ForegroundColor Green
+Write-Host ""
+`;
+}
+
+export function readmeTemplate(config: RigConfig): string {
+  return `# ${config.name}
+
+${config.tagline}
+
+## Install
+
+**macOS / Linux**
+
+\`\`\`bash
+${config.install.bash}
+\`\`\`
+
+**Windows (PowerShell)**
+
+\`\`\`powershell
+${config.install.powershell}
+\`\`\`
+
+## What It Does
+
+TODO: explain what the rig does once installed.
+
+## Files
+
+| File | Purpose |
+| --- | --- |
+| \`config.json\` | Rig details shown on AI Foundry |
+| \`install.sh\` | Installer for macOS and Linux |
+| \`install.ps1\` | Installer for Windows |
+`;
+}
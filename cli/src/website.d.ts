@@ -0,0 +1,5 @@
+// The CLI type-checks the website's shared types module, whose fetch calls use
+// Next.js's `next` request option. Declare it so the CLI doesn't need Next.
+interface RequestInit {
+  next?: { revalidate?: number | false; tags?: string[] };
+}
@@ -25,7 +25,7 @@
 $ErrorActionPreference = "Stop"
 
 # Version number -- increment this when making changes
-$ScriptVersion = "1.3.0"
+$ScriptVersion = "1.4.0"
 
 function Write-Step {
     param([string]$Message)
@@ -43,9 +43,29 @@ function Write-Warn {
     Write-Host "    WARN: $Message" -ForegroundColor Yellow
 }
 
+# Set AI_FOUNDRY_URL to the AI Foundry site you installed from to send it an
+# anonymous success/failure report. Nothing is sent otherwise.
+function Send-InstallReport {
+    param([bool]$Success)
+    if (-not $env:AI_FOUNDRY_URL) { return }
+    $body = @{
+        installer        = "powershell"
+        installerVersion = $ScriptVersion
+        success          = $Success
+    } | ConvertTo-Json -Compress
+    try {
+        Invoke-RestMethod -Method Post -Uri "$($env:AI_FOUNDRY_URL.TrimEnd('/'))/api/rigs/igor/installs" `
+            -ContentType "application/json" -Body $body -TimeoutSec 5 | Out-Null
+    } catch {
+        # Reporting is best effort and must never break the install
+    }
+}
+
 function Write-Fail {
     param([string]$Message)
     Write-Host "    FAIL: $Message" -ForegroundColor Red
+    # Every failure in this installer is fatal
+    Send-InstallReport -Success $false
 }
 
 Write-Host ""
@@ -59,9 +79,11 @@ Write-Host "========================================" -ForegroundColor Cyan
 # -------------------------------------------------------
 $RigSourceOwner = "marshellis"
 $RigSourceRepo = "ai-foundry"
-$RigSourceBranch = "main"
+# AI_FOUNDRY_REF is set by pinned install commands to the commit this script
+# came from, so the files below are fetched from that commit too
+$RigSourceRef = if ($env:AI_FOUNDRY_REF) { $env:AI_FOUNDRY_REF } else { "main" }
 $RigSourcePath = "rigs/igor"
-$RigBaseUrl = "https://raw.githubusercontent.com/$RigSourceOwner/$RigSourceRepo/$RigSourceBranch/$RigSourcePath"
+$RigBaseUrl = "https://raw.githubusercontent.com/$RigSourceOwner/$RigSourceRepo/$RigSourceRef/$RigSourcePath"
 
 # -------------------------------------------------------
 # Step 1: Check prerequisites
@@ -331,6 +353,8 @@ Replace this with a real task description. Include file paths, expected behavior
 # -------------------------------------------------------
 # Done
 # -------------------------------------------------------
+Send-InstallReport -Success $true
+
 Write-Host ""
 Write-Host "========================================" -ForegroundColor Green
 Write-Host "  Igor is installed!" -ForegroundColor Green
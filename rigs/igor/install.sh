@@ -19,7 +19,7 @@
 set -euo pipefail
 
 # Version number -- increment this when making changes
-SCRIPT_VERSION="1.3.0"
+SCRIPT_VERSION="1.4.0"
 
 # Colors
 RED='\033[0;31m'
@@ -45,9 +45,25 @@ echo -e "${CYAN}========================================${NC}"
 # -------------------------------------------------------
 RIG_SOURCE_OWNER="marshellis"
 RIG_SOURCE_REPO="ai-foundry"
-RIG_SOURCE_BRANCH="main"
+# AI_FOUNDRY_REF is set by pinned install commands to the commit this script
+# came from, so the files below are fetched from that commit too
+RIG_SOURCE_REF="${AI_FOUNDRY_REF:-main}"
 RIG_SOURCE_PATH="rigs/igor"
-RIG_BASE_URL="https://raw.githubusercontent.com/$RIG_SOURCE_OWNER/$RIG_SOURCE_REPO/$RIG_SOURCE_BRANCH/$RIG_SOURCE_PATH"
+RIG_BASE_URL="https://raw.githubusercontent.com/$RIG_SOURCE_OWNER/$RIG_SOURCE_REPO/$RIG_SOURCE_REF/$RIG_SOURCE_PATH"
+
+# -------------------------------------------------------
+# Install report (opt-in)
+# -------------------------------------------------------
+# Set AI_FOUNDRY_URL to the AI Foundry site you installed from to send it an
+# anonymous success/failure report. Nothing is sent otherwise.
+report_install() {
+    [[ -n "${AI_FOUNDRY_URL:-}" ]] || return 0
+    curl -fsS -m 5 -X POST "${AI_FOUNDRY_URL%/}/api/rigs/igor/installs" \
+        -H "Content-Type: application/json" \
+        -d "{\"installer\":\"bash\",\"installerVersion\":\"$SCRIPT_VERSION\",\"success\":$1}" \
+        > /dev/null 2>&1 || true
+}
+trap 'if [[ $? -ne 0 ]]; then report_install false; fi' EXIT
 
 # -------------------------------------------------------
 # Step 1: Check prerequisites
@@ -265,6 +281,8 @@ fi
 # -------------------------------------------------------
 # Done
 # -------------------------------------------------------
+report_install true
+
 echo ""
 echo -e "${GREEN}========================================${NC}"
 echo -e "${GREEN}  Igor is installed!${NC}"
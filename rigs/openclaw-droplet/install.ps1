@@ -29,8 +29,11 @@ param(
 )
 
 $ErrorActionPreference = "Stop"
-$ScriptVersion = "1.4.8"
-$RigBaseUrl = "https://raw.githubusercontent.com/marshellis/ai-foundry/main/rigs/openclaw-droplet"
+$ScriptVersion = "1.4.9"
+# AI_FOUNDRY_REF is set by pinned install commands to the commit this script
+# came from, so the files below are fetched from that commit too
+$RigSourceRef = if ($env:AI_FOUNDRY_REF) { $env:AI_FOUNDRY_REF } else { "main" }
+$RigBaseUrl = "https://raw.githubusercontent.com/marshellis/ai-foundry/$RigSourceRef/rigs/openclaw-droplet"
 $CheckpointFile = "$env:TEMP\openclaw-droplet-checkpoint.json"
 
 function Write-Step {
@@ -54,6 +57,24 @@ function Write-Fail {
     Write-Host "    FAIL: $Message" -ForegroundColor Red
 }
 
+# Set AI_FOUNDRY_URL to the AI Foundry site you installed from to send it an
+# anonymous success/failure report. Nothing is sent otherwise.
+function Send-InstallReport {
+    param([bool]$Success)
+    if (-not $env:AI_FOUNDRY_URL) { return }
+    $body = @{
+        installer        = "powershell"
+        installerVersion = $ScriptVersion
+        success          = $Success
+    } | ConvertTo-Json -Compress
+    try {
+        Invoke-RestMethod -Method Post -Uri "$($env:AI_FOUNDRY_URL.TrimEnd('/'))/api/rigs/openclaw-droplet/installs" `
+            -ContentType "application/json" -Body $body -TimeoutSec 5 | Out-Null
+    } catch {
+        # Reporting is best effort and must never break the install
+    }
+}
+
 function Write-Info {
     param([string]$Message)
     Write-Host "    $Message" -ForegroundColor Gray
@@ -728,7 +749,7 @@ if ($CurrentStep -ge 3) {
     $oldErrorAction = $ErrorActionPreference
     $ErrorActionPreference = "SilentlyContinue"
     # Download script via GitHub API (avoids raw.githubusercontent.com CDN caching)
-    $apiUrl = "https://api.github.com/repos/marshellis/ai-foundry/contents/rigs/openclaw-droplet/droplet-setup.sh?ref=main"
+    $apiUrl = "https://api.github.com/repos/marshellis/ai-foundry/contents/rigs/openclaw-droplet/droplet-setup.sh?ref=$RigSourceRef"
     $downloadResult = & ssh -o StrictHostKeyChecking=no "$SSHUser@$DropletIP" "curl -fsSL -H 'Accept: application/vnd.github.v3.raw' '$apiUrl' | sed 's/\r$//' > /tmp/openclaw-setup.sh && chmod +x /tmp/openclaw-setup.sh && echo 'DOWNLOAD_OK'" 2>&1
     $downloadExitCode = $LASTEXITCODE
     $ErrorActionPreference = $oldErrorAction
@@ -779,6 +800,7 @@ if ($CurrentStep -ge 3) {
         Write-Host ""
         Write-Host "Droplet: $SSHUser@$DropletIP" -ForegroundColor Cyan
         Write-Host "Run this script again to retry." -ForegroundColor Gray
+        Send-InstallReport -Success $false
         exit 1
     }
 
@@ -800,6 +822,7 @@ if ($CurrentStep -ge 3) {
 # Done - Keep checkpoint so re-runs skip to droplet script
 # Use -Reset to start completely fresh
 # -------------------------------------------------------
+Send-InstallReport -Success $true
 
 Write-Host ""
 Write-Host "========================================" -ForegroundColor Green
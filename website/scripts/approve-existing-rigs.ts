@@ -0,0 +1,59 @@
+/**
+ * Approve the rigs that were listed before moderation
+ *
+ * Usage:
+ *   npx tsx scripts/approve-existing-rigs.ts [--before <time>]
+ *
+ * `npm run db:push` adds the rigs' status column as `pending`, which hides a
+ * catalog from before moderation. Run this once, right after that push, to
+ * approve every rig that was never reviewed and was created before `--before`
+ * (default: now), so the catalog is listed again while later submissions stay
+ * in review. Safe to run multiple times.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-http";
+import { and, eq, isNull, lt } from "drizzle-orm";
+import { parseArgs } from "node:util";
+import { rigs } from "../src/lib/db/schema";
+
+// Load environment variables
+import "dotenv/config";
+
+if (!process.env.DATABASE_URL) {
+  console.error("ERROR: DATABASE_URL environment variable is not set");
+  console.error("Make sure you have a .env file with DATABASE_URL");
+  process.exit(1);
+}
+
+const { values } = parseArgs({ options: { before: { type: "string" } } });
+const before = values.before ? new Date(values.before) : new Date();
+if (Number.isNaN(before.getTime())) {
+  console.error(`ERROR: --before "${values.before}" isn't a date and time`);
+  process.exit(1);
+}
+
+const sql = neon(process.env.DATABASE_URL);
+const db = drizzle(sql);
+
+async function approve() {
+  console.log(`Approving unreviewed rigs created before ${before.toISOString()}...\n`);
+
+  const approved = await db
+    .update(rigs)
+    .set({ status: "approved", reviewedAt: new Date() })
+    .where(and(eq(rigs.status, "pending"), isNull(rigs.reviewedAt), lt(rigs.createdAt, before)))
+    .returning({ slug: rigs.slug });
+
+  for (const rig of approved) {
+    console.log(`  Approved: ${rig.slug}`);
+  }
+  console.log(`\nApproved ${approved.length} rig(s).`);
+}
+
+approve()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Approval failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,77 @@
+/**
+ * Check that every rig can still be installed
+ *
+ * Usage:
+ *   npx tsx scripts/check-health.ts [slug...]
+ *
+ * Re-checks each rig's repository, branch and folder and its config.json, and
+ * records the result as healthy, degraded or broken. Rigs that can't be checked
+ * because GitHub is unavailable are skipped. The deployed site runs the same
+ * check daily from /api/cron/health-checks. Safe to run multiple times.
+ */
+
+// Load environment variables
+import "dotenv/config";
+
+if (!process.env.DATABASE_URL) {
+  console.error("ERROR: DATABASE_URL environment variable is not set");
+  console.error("Make sure you have a .env file with DATABASE_URL");
+  process.exit(1);
+}
+
+const slugs = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+
+async function check() {
+  // Imported after the env check since the db client connects on import
+  const { getAllRigs } = await import("../src/lib/rigs/data");
+  const { runHealthCheck } = await import("../src/lib/rigs/health");
+
+  const allRigs = await getAllRigs({ includeUnapproved: true });
+  const targets =
+    slugs.length > 0 ? allRigs.filter((rig) => slugs.includes(rig.slug)) : allRigs;
+
+  for (const slug of slugs) {
+    if (!allRigs.some((rig) => rig.slug === slug)) {
+      console.error(`  WARNING: no rig with slug "${slug}"`);
+    }
+  }
+
+  console.log(`Checking ${targets.length} rig(s)...\n`);
+
+  let failures = 0;
+  let unhealthy = 0;
+  for (const rig of targets) {
+    try {
+      const result = await runHealthCheck(rig);
+
+      if (result.error !== undefined) {
+        failures++;
+        console.error(`  SKIPPED ${rig.slug}: ${result.error}`);
+      } else if (result.status === "healthy") {
+        console.log(`  OK: ${rig.slug}`);
+      } else {
+        unhealthy++;
+        console.log(`  ${result.status.toUpperCase()}: ${rig.slug}`);
+        for (const problem of result.problems) {
+          console.log(`    ${problem.check}: ${problem.message}`);
+        }
+      }
+    } catch (error) {
+      failures++;
+      console.error(`  ERROR checking ${rig.slug}:`, error);
+    }
+  }
+
+  console.log(
+    `\nCheck complete: ${unhealthy} unhealthy rig(s)${failures > 0 ? `, ${failures} not checked` : ""}.`
+  );
+  // Unhealthy rigs are the owners' to fix; only failures to check fail the run
+  return failures;
+}
+
+check()
+  .then((failures) => process.exit(failures > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error("Check failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,77 @@
+/**
+ * Check every rig's config.json against its repository
+ *
+ * Usage:
+ *   npx tsx scripts/check-rigs.ts [slug...]
+ *
+ * Flags files whose path or upstreamUrl 404s, install commands that don't
+ * match the rig's repository, and slug or repository mismatches, and records
+ * the result on each rig so owners see it on the rig's page. Runs nightly
+ * from .github/workflows/check-rigs.yml. Safe to run multiple times.
+ */
+
+// Load environment variables
+import "dotenv/config";
+
+if (!process.env.DATABASE_URL) {
+  console.error("ERROR: DATABASE_URL environment variable is not set");
+  console.error("Make sure you have a .env file with DATABASE_URL");
+  process.exit(1);
+}
+
+const slugs = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+
+async function check() {
+  // Imported after the env check since the db client connects on import
+  const { getAllRigs } = await import("../src/lib/rigs/data");
+  const { runConsistencyCheck } = await import("../src/lib/rigs/consistency");
+
+  const allRigs = await getAllRigs({ includeUnapproved: true });
+  const targets =
+    slugs.length > 0 ? allRigs.filter((rig) => slugs.includes(rig.slug)) : allRigs;
+
+  for (const slug of slugs) {
+    if (!allRigs.some((rig) => rig.slug === slug)) {
+      console.error(`  WARNING: no rig with slug "${slug}"`);
+    }
+  }
+
+  console.log(`Checking ${targets.length} rig(s)...\n`);
+
+  let failures = 0;
+  let inconsistent = 0;
+  for (const rig of targets) {
+    try {
+      const result = await runConsistencyCheck(rig);
+
+      if (result.error !== undefined) {
+        failures++;
+        console.error(`  ERROR ${rig.slug}: ${result.error}`);
+      } else if (result.issues.length === 0) {
+        console.log(`  OK: ${rig.slug}`);
+      } else {
+        inconsistent++;
+        console.log(`  ${result.issues.length} issue(s): ${rig.slug}`);
+        for (const issue of result.issues) {
+          console.log(`    ${issue.field}: ${issue.message}`);
+        }
+      }
+    } catch (error) {
+      failures++;
+      console.error(`  ERROR checking ${rig.slug}:`, error);
+    }
+  }
+
+  console.log(
+    `\nCheck complete: ${inconsistent} rig(s) with issues${failures > 0 ? `, ${failures} error(s)` : ""}.`
+  );
+  // Inconsistent rigs are the owners' to fix; only failures to check fail the run
+  return failures;
+}
+
+check()
+  .then((failures) => process.exit(failures > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error("Check failed:", error);
+    process.exit(1);
+  });
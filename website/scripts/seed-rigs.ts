@@ -4,13 +4,14 @@
  * Usage:
  *   npx tsx scripts/seed-rigs.ts
  * 
- * This script inserts or updates the core rigs in the database.
- * Safe to run multiple times - uses upsert logic.
+ * This script inserts or updates the catalog categories and the core rigs in
+ * the database. Safe to run multiple times - uses upsert logic.
  */
 
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
-import { rigs } from "../src/lib/db/schema";
+import { categories, rigs } from "../src/lib/db/schema";
+import type { CategoryInput } from "../src/lib/rigs/validation";
 import { eq } from "drizzle-orm";
 
 // Load environment variables
@@ -26,9 +27,49 @@ const sql = neon(process.env.DATABASE_URL);
 const db = drizzle(sql);
 
 // ============================================================================
-// SEED DATA - Add new rigs here
+// SEED DATA - Add new categories and rigs here
 // ============================================================================
 
+// The categories a new site starts with. Admins manage them afterwards at
+// /admin/categories, so existing categories are left as they are.
+const seedCategories: CategoryInput[] = [
+  {
+    slug: "ci-cd",
+    label: "CI/CD",
+    description: "Rigs that run in CI pipelines and GitHub Actions.",
+    icon: "workflow",
+    sortOrder: 0,
+  },
+  {
+    slug: "coding",
+    label: "Coding",
+    description: "Rigs that help write, review and refactor code.",
+    icon: "code",
+    sortOrder: 1,
+  },
+  {
+    slug: "personal",
+    label: "Personal",
+    description: "Assistants for your own email, calendar and notes.",
+    icon: "user",
+    sortOrder: 2,
+  },
+  {
+    slug: "automation",
+    label: "Automation",
+    description: "Rigs that automate everyday workflows.",
+    icon: "zap",
+    sortOrder: 3,
+  },
+  {
+    slug: "self-hosted",
+    label: "Self-hosted",
+    description: "Rigs you run on your own server.",
+    icon: "server",
+    sortOrder: 4,
+  },
+];
+
 const seedRigs = [
   {
     slug: "igor",
@@ -37,6 +78,9 @@ const seedRigs = [
     description:
       "A GitHub Action that automatically makes incremental progress on large projects by working through tracking issues with task checklists. Create a tracking issue with a checklist, and Igor picks up the next unchecked task each day -- reading context, implementing the change, and opening a PR.",
     category: "ci-cd",
+    tags: ["github-actions", "claude", "automation", "incremental"],
+    difficulty: "beginner",
+    readiness: "ready",
     repository: {
       owner: "marshellis",
       name: "ai-foundry",
@@ -53,6 +97,9 @@ const seedRigs = [
     description:
       "A complete setup for OpenClaw on a DigitalOcean droplet. Includes remote installation, swap optimization, and guided setup for WhatsApp (with dedicated number), Telegram bot, and Gmail Pub/Sub integration.",
     category: "automation",
+    tags: ["openclaw", "digitalocean", "windows", "gmail", "google-drive", "google-docs", "ai-assistant"],
+    difficulty: "intermediate",
+    readiness: "ready",
     repository: {
       owner: "marshellis",
       name: "ai-foundry",
@@ -71,6 +118,16 @@ const seedRigs = [
 async function seed() {
   console.log("Starting rig seed...\n");
 
+  // Rigs refer to categories by slug, so those come first
+  const addedCategories = await db
+    .insert(categories)
+    .values(seedCategories)
+    .onConflictDoNothing({ target: categories.slug })
+    .returning();
+  for (const category of addedCategories) {
+    console.log(`  Inserted category: ${category.label} (${category.slug})`);
+  }
+
   for (const rig of seedRigs) {
     try {
       // Check if rig already exists
@@ -89,7 +146,11 @@ async function seed() {
             tagline: rig.tagline,
             description: rig.description,
             category: rig.category,
+            tags: rig.tags,
+            difficulty: rig.difficulty,
+            readiness: rig.readiness,
             repository: rig.repository,
+            // Status is left alone so an admin's later review sticks
             updatedAt: new Date(),
           })
           .where(eq(rigs.slug, rig.slug));
@@ -103,9 +164,14 @@ async function seed() {
           tagline: rig.tagline,
           description: rig.description,
           category: rig.category,
+          tags: rig.tags,
+          difficulty: rig.difficulty,
+          readiness: rig.readiness,
           repository: rig.repository,
           submittedBy: rig.submittedBy,
           submittedByAvatar: rig.submittedByAvatar,
+          // Core rigs are curated, so they skip the moderation queue
+          status: "approved",
         });
 
         console.log(`  Inserted: ${rig.name} (${rig.slug})`);
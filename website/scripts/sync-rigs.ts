@@ -0,0 +1,80 @@
+/**
+ * Sync rig metadata from each rig's config.json
+ *
+ * Usage:
+ *   npx tsx scripts/sync-rigs.ts [slug...] [--dry-run]
+ *
+ * Pulls config.json for every rig (or only the given slugs) and copies its
+ * name, tagline, description, category, tags, difficulty and status into the
+ * database, and re-pins the install scripts to the branch's current commit,
+ * printing a diff of what changed. Safe to run multiple times.
+ */
+
+// Load environment variables
+import "dotenv/config";
+
+if (!process.env.DATABASE_URL) {
+  console.error("ERROR: DATABASE_URL environment variable is not set");
+  console.error("Make sure you have a .env file with DATABASE_URL");
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const slugs = args.filter((arg) => !arg.startsWith("--"));
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+async function sync() {
+  // Imported after the env check since the db client connects on import
+  const { getAllRigs } = await import("../src/lib/rigs/data");
+  const { syncRigFromConfig } = await import("../src/lib/rigs/sync");
+
+  const allRigs = await getAllRigs({ includeUnapproved: true });
+  const targets =
+    slugs.length > 0 ? allRigs.filter((rig) => slugs.includes(rig.slug)) : allRigs;
+
+  for (const slug of slugs) {
+    if (!allRigs.some((rig) => rig.slug === slug)) {
+      console.error(`  WARNING: no rig with slug "${slug}"`);
+    }
+  }
+
+  console.log(`Syncing ${targets.length} rig(s)${dryRun ? " (dry run)" : ""}...\n`);
+
+  let failures = 0;
+  for (const rig of targets) {
+    try {
+      const result = await syncRigFromConfig(rig, { dryRun });
+
+      if (result.error) {
+        failures++;
+        console.error(`  ERROR ${rig.slug}: ${result.error}`);
+      } else if (result.changes.length === 0) {
+        console.log(`  Unchanged: ${rig.slug}`);
+      } else {
+        console.log(`  ${result.updated ? "Updated" : "Would update"}: ${rig.slug}`);
+        for (const change of result.changes) {
+          console.log(`    ${change.field}:`);
+          console.log(`      - ${formatValue(change.from)}`);
+          console.log(`      + ${formatValue(change.to)}`);
+        }
+      }
+    } catch (error) {
+      failures++;
+      console.error(`  ERROR syncing ${rig.slug}:`, error);
+    }
+  }
+
+  console.log(`\nSync complete${failures > 0 ? ` with ${failures} error(s)` : ""}!`);
+  return failures;
+}
+
+sync()
+  .then((failures) => process.exit(failures > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error("Sync failed:", error);
+    process.exit(1);
+  });
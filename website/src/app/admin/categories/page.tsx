@@ -0,0 +1,81 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CategoryForm } from "@/components/rigs/category-form";
+import { CategoryIcon } from "@/components/rigs/category-icon";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/lib/admin";
+import { getCategoryRigCounts, listCategories } from "@/lib/rigs/categories";
+
+export const metadata = {
+  title: "Categories | AI Foundry",
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminCategoriesPage() {
+  const session = await auth();
+
+  if (!session?.user?.login) {
+    redirect("/api/auth/signin?callbackUrl=/admin/categories");
+  }
+
+  if (!isAdmin(session.user.login)) notFound();
+
+  const [categories, rigCounts] = await Promise.all([
+    listCategories(),
+    getCategoryRigCounts(),
+  ]);
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Categories</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          The categories rigs can be submitted in. Each has its own page, and
+          its label and icon are shown on every rig in it.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">New Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CategoryForm />
+          </CardContent>
+        </Card>
+
+        {categories.map((category) => {
+          const rigCount = rigCounts[category.slug] ?? 0;
+
+          return (
+            <Card key={category.slug}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <CategoryIcon icon={category.icon} className="h-5 w-5" />
+                  <Link href={`/categories/${category.slug}`} className="hover:underline">
+                    {category.label}
+                  </Link>
+                </CardTitle>
+                <CardDescription>
+                  {rigCount} rig{rigCount === 1 ? "" : "s"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CategoryForm category={category} rigCount={rigCount} />
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ReviewRigForm } from "@/components/rigs/review-rig-form";
+import { ScriptSafety } from "@/components/rigs/script-safety";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/lib/admin";
+import { getRigsByStatus } from "@/lib/rigs/data";
+import { buildInstallCommands, getRepoUrl, type RigStatus } from "@/lib/rigs/types";
+import { rigStatusSchema } from "@/lib/rigs/validation";
+import { getLatestRigVersion } from "@/lib/rigs/versions";
+import { cn } from "@/lib/utils";
+
+export const metadata = {
+  title: "Review Rigs | AI Foundry",
+};
+
+export const dynamic = "force-dynamic";
+
+const statusTabs: { value: RigStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+export default async function ReviewRigsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string | string[] }>;
+}) {
+  const session = await auth();
+
+  if (!session?.user?.login) {
+    redirect("/api/auth/signin?callbackUrl=/admin/review");
+  }
+
+  if (!isAdmin(session.user.login)) notFound();
+
+  const parsed = rigStatusSchema.safeParse((await searchParams).status);
+  const status: RigStatus = parsed.success ? parsed.data : "pending";
+  const rigs = await getRigsByStatus(status);
+  const latestVersions = await Promise.all(
+    rigs.map((rig) => getLatestRigVersion(rig.id))
+  );
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Review Rigs</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          New submissions stay off the catalog until they&apos;re approved.
+          Check the install scripts before approving -- they run on
+          users&apos; machines.
+        </p>
+      </div>
+
+      <div className="mb-6 flex items-center gap-3 text-sm">
+        {statusTabs.map((tab) => (
+          <Link
+            key={tab.value}
+            href={tab.value === "pending" ? "/admin/review" : `/admin/review?status=${tab.value}`}
+            className={cn(
+              "transition-colors hover:text-foreground/80",
+              status === tab.value
+                ? "text-foreground font-medium"
+                : "text-foreground/60"
+            )}
+          >
+            {tab.label}
+          </Link>
+        ))}
+      </div>
+
+      {rigs.length === 0 ? (
+        <p className="text-muted-foreground">
+          {status === "pending" ? "Nothing to review." : `No ${status} rigs.`}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {rigs.map((rig, i) => {
+            const installCommands = buildInstallCommands(rig.repository);
+            // The scan at the pinned commit is the newest one; a rig synced to
+            // new scripts hasn't necessarily published them as a version
+            const report = rig.safetyReport ?? latestVersions[i]?.safetyReport ?? null;
+
+            return (
+              <Card key={rig.slug}>
+                <CardHeader>
+                  <CardTitle className="text-xl">
+                    <Link href={`/rigs/${rig.slug}`} className="hover:underline">
+                      {rig.name}
+                    </Link>
+                  </CardTitle>
+                  <CardDescription>
+                    {rig.tagline} -- submitted by{" "}
+                    <Link
+                      href={`/users/${rig.submittedBy}`}
+                      className="text-primary hover:underline"
+                    >
+                      {rig.submittedBy}
+                    </Link>{" "}
+                    on {rig.createdAt.toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">{rig.description}</p>
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">
+                      Source
+                    </p>
+                    <a
+                      href={getRepoUrl(rig.repository)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-mono text-primary hover:underline"
+                    >
+                      {rig.repository.owner}/{rig.repository.name}@
+                      {rig.repository.branch}/{rig.repository.path}
+                    </a>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">
+                      Install commands
+                    </p>
+                    <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-xs">
+                      <code>
+                        {installCommands.powershell}
+                        {"\n"}
+                        {installCommands.bash}
+                      </code>
+                    </pre>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">
+                      Script safety
+                    </p>
+                    {report ? (
+                      <ScriptSafety report={report} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Not scanned -- the rig has no published version.
+                      </p>
+                    )}
+                  </div>
+                  {rig.reviewedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {rig.reviewedBy
+                        ? `${rig.status === "rejected" ? "Rejected" : "Reviewed"} by ${rig.reviewedBy}`
+                        : "Auto-approved after a clean safety scan"}
+                      {` on ${rig.reviewedAt.toLocaleDateString()}`}
+                      {rig.rejectionReason && `: ${rig.rejectionReason}`}
+                    </p>
+                  )}
+                  <ReviewRigForm slug={rig.slug} status={rig.status} />
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
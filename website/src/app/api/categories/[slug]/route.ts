@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/lib/admin";
+import { deleteCategory, updateCategory } from "@/lib/rigs/categories";
+import { updateCategorySchema } from "@/lib/rigs/validation";
+
+// PATCH /api/categories/[slug] -- update a category's label, description,
+// icon or order (admins only). The slug never changes.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!isAdmin(session.user.login)) {
+    return NextResponse.json(
+      { error: "Only admins can manage categories" },
+      { status: 403 }
+    );
+  }
+
+  const { slug } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = updateCategorySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await updateCategory(slug, parsed.data);
+    if (!category) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+    return NextResponse.json(category);
+  } catch (error) {
+    console.error("Failed to update category:", error);
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/categories/[slug] -- delete an unused category (admins only)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!isAdmin(session.user.login)) {
+    return NextResponse.json(
+      { error: "Only admins can manage categories" },
+      { status: 403 }
+    );
+  }
+
+  const { slug } = await params;
+
+  try {
+    const result = await deleteCategory(slug);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Failed to delete category:", error);
+    return NextResponse.json(
+      { error: "Failed to delete category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/lib/admin";
+import { createCategory, listCategories } from "@/lib/rigs/categories";
+import { categorySchema } from "@/lib/rigs/validation";
+
+// GET /api/categories -- list every category in display order
+export async function GET() {
+  try {
+    return NextResponse.json({ categories: await listCategories() });
+  } catch (error) {
+    console.error("Failed to fetch categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories -- create a category (admins only)
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!isAdmin(session.user.login)) {
+    return NextResponse.json(
+      { error: "Only admins can manage categories" },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = categorySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await createCategory(parsed.data);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.category, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create category:", error);
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
+}
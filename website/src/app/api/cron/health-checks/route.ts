@@ -0,0 +1,58 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAllRigs } from "@/lib/rigs/data";
+import { pruneHealthChecks, runHealthCheck } from "@/lib/rigs/health";
+
+// Checking every rig makes two requests to its host per rig
+export const maxDuration = 300;
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const given = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// GET /api/cron/health-checks -- re-check every rig's repository and
+// config.json and record the result. Called daily by Vercel Cron (see
+// vercel.json), which sends CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 }
+    );
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+
+  try {
+    const allRigs = await getAllRigs({ includeUnapproved: true });
+    const counts = { healthy: 0, degraded: 0, broken: 0, skipped: 0 };
+
+    for (const rig of allRigs) {
+      try {
+        const result = await runHealthCheck(rig);
+        if (result.error !== undefined) {
+          counts.skipped++;
+        } else {
+          counts[result.status]++;
+        }
+      } catch (error) {
+        console.error(`Failed to check health of ${rig.slug}:`, error);
+        counts.skipped++;
+      }
+    }
+
+    await pruneHealthChecks();
+
+    return NextResponse.json({ checked: allRigs.length, ...counts });
+  } catch (error) {
+    console.error("Failed to run health checks:", error);
+    return NextResponse.json(
+      { error: "Failed to run health checks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readdir, readFile, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { getLocalRigsDir } from "@/lib/rigs/providers";
+
+// GET /api/local-files/[...path] -- serve a file from LOCAL_RIGS_DIR as text,
+// or list a folder as JSON. Backs the "file" repository provider, so rigs can
+// be submitted and installed without a Git host.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ path?: string[] }> }
+) {
+  const rootDir = getLocalRigsDir();
+  if (!rootDir) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { path: segments = [] } = await params;
+  const isInside = (root: string, target: string) =>
+    target === root || target.startsWith(root + path.sep);
+
+  try {
+    // Keep requests inside the rigs directory, also after following symlinks
+    const root = await realpath(path.resolve(rootDir));
+    const requested = path.resolve(root, ...segments);
+    if (!isInside(root, requested)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const target = await realpath(requested);
+    if (!isInside(root, target)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const stats = await stat(target);
+
+    if (stats.isDirectory()) {
+      const entries = await readdir(target, { withFileTypes: true });
+      const relative = path.relative(root, target).split(path.sep).filter(Boolean);
+      const contents = entries
+        .filter((entry) => entry.isFile() || entry.isDirectory())
+        .map((entry) => ({
+          name: entry.name,
+          type: entry.isDirectory() ? "dir" : "file",
+          path: [...relative, entry.name].join("/"),
+        }));
+      return NextResponse.json({ contents }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    return new NextResponse(await readFile(target, "utf8"), {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    console.error("Failed to read local file:", error);
+    return NextResponse.json(
+      { error: "Failed to read local file" },
+      { status: 500 }
+    );
+  }
+}
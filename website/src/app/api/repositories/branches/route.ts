@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, getGitHubToken } from "@/lib/auth";
+import { rateLimitHeaders } from "@/lib/github";
+import { getProvider, hostNotAllowedMessage, isAllowedHost } from "@/lib/rigs/providers";
+import { repositoryQuerySchema } from "@/lib/rigs/validation";
+
+// GET /api/repositories/branches?provider=&host=&owner=&name= -- the
+// repository's branch names, fetched server side (with the signed-in user's
+// token on GitHub) so the submit form isn't rate limited per browser
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const parsed = repositoryQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid repository", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const repo = { ...parsed.data, branch: "", path: "" };
+  if (!isAllowedHost(repo)) {
+    return NextResponse.json(
+      { error: hostNotAllowedMessage(repo) },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const result = await getProvider(repo).listBranches(repo, {
+      token: await getGitHubToken(request),
+    });
+    const headers = rateLimitHeaders(result.rateLimit ?? null);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.status === 404 ? "Repository not found" : result.error },
+        { status: result.status, headers }
+      );
+    }
+    return NextResponse.json({ branches: result.data }, { headers });
+  } catch (error) {
+    console.error("Failed to fetch branches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch branches. Please try again." },
+      { status: 502 }
+    );
+  }
+}
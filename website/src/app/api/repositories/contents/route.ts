@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, getGitHubToken } from "@/lib/auth";
+import { rateLimitHeaders } from "@/lib/github";
+import { getProvider, hostNotAllowedMessage, isAllowedHost } from "@/lib/rigs/providers";
+import { repositoryQuerySchema } from "@/lib/rigs/validation";
+
+// GET /api/repositories/contents?provider=&host=&owner=&name=&ref=&path= --
+// list a folder of the repository, fetched server side (with the signed-in
+// user's token on GitHub)
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const parsed = repositoryQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid repository", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const { ref, path, ...location } = parsed.data;
+  if (!ref) {
+    return NextResponse.json({ error: "Branch is required" }, { status: 400 });
+  }
+  const repo = { ...location, branch: ref, path };
+  if (!isAllowedHost(repo)) {
+    return NextResponse.json(
+      { error: hostNotAllowedMessage(repo) },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const result = await getProvider(repo).listContents(repo, path, ref, {
+      token: await getGitHubToken(request),
+    });
+    const headers = rateLimitHeaders(result.rateLimit ?? null);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers }
+      );
+    }
+    return NextResponse.json({ contents: result.data }, { headers });
+  } catch (error) {
+    console.error("Failed to fetch repository contents:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch repository contents. Please try again." },
+      { status: 502 }
+    );
+  }
+}
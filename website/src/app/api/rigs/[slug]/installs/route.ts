@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getRigBySlug } from "@/lib/rigs/data";
+import {
+  getClientIp,
+  getInstallReportRetryAfter,
+  hashClient,
+  recordInstall,
+} from "@/lib/rigs/installs";
+import { canViewRig } from "@/lib/rigs/moderation";
+import { installReportSchema } from "@/lib/rigs/validation";
+
+// POST /api/rigs/[slug]/installs -- opt-in install report sent by a rig's
+// installer after it runs. Anonymous callers are rate-limited per IP.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = installReportSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = await auth();
+    const reportedBy = session?.user?.login ?? null;
+
+    let clientHash: string | null = null;
+    if (!reportedBy) {
+      clientHash = hashClient(getClientIp(request.headers));
+
+      const retryAfter = await getInstallReportRetryAfter(clientHash);
+      if (retryAfter !== null) {
+        return NextResponse.json(
+          { error: "Too many install reports. Please try again later." },
+          { status: 429, headers: { "Retry-After": String(retryAfter) } }
+        );
+      }
+    }
+
+    const rig = await getRigBySlug(slug);
+    if (!rig || !canViewRig(rig, reportedBy)) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    await recordInstall(rig.id, parsed.data, { clientHash, reportedBy });
+
+    return NextResponse.json({ recorded: true }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to record install:", error);
+    return NextResponse.json(
+      { error: "Failed to record install" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/lib/admin";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { reviewRig } from "@/lib/rigs/moderation";
+import { reviewRigSchema } from "@/lib/rigs/validation";
+
+// POST /api/rigs/[slug]/review -- approve or reject a rig (admins only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!isAdmin(session.user.login)) {
+    return NextResponse.json(
+      { error: "Only admins can review rigs" },
+      { status: 403 }
+    );
+  }
+
+  const { slug } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = reviewRigSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rig = await getRigBySlug(slug);
+    if (!rig) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    await reviewRig(rig.id, parsed.data, session.user.login);
+
+    return NextResponse.json({ status: parsed.data.status });
+  } catch (error) {
+    console.error("Failed to review rig:", error);
+    return NextResponse.json(
+      { error: "Failed to review rig" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { auth, getGitHubToken } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { rigs } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { submitRigSchema } from "@/lib/rigs/validation";
+import { getCategory } from "@/lib/rigs/categories";
+import { getProvider, validateRepository } from "@/lib/rigs/providers";
+import { loadRigConfig } from "@/lib/rigs/types";
+import { canViewRig } from "@/lib/rigs/moderation";
+import { pinInstallScripts } from "@/lib/rigs/scripts";
+import { checkRigConsistency } from "@/lib/rigs/consistency";
 
 // GET /api/rigs/[slug] -- get a single rig
 export async function GET(
@@ -18,7 +25,9 @@ export async function GET(
       .where(eq(rigs.slug, slug))
       .limit(1);
 
-    if (!rig) {
+    // Unapproved rigs 404 for everyone but their submitter and admins
+    const session = await auth();
+    if (!rig || !canViewRig(rig, session?.user?.login)) {
       return NextResponse.json({ error: "Rig not found" }, { status: 404 });
     }
 
@@ -32,6 +41,172 @@ export async function GET(
   }
 }
 
+// PATCH /api/rigs/[slug] -- edit own rig. Fields missing from the body keep
+// their current values; the slug and createdAt never change.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { slug } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    const [rig] = await db
+      .select()
+      .from(rigs)
+      .where(eq(rigs.slug, slug))
+      .limit(1);
+
+    if (!rig) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    if (rig.submittedBy !== session.user.login) {
+      return NextResponse.json(
+        { error: "You can only edit your own rigs" },
+        { status: 403 }
+      );
+    }
+
+    // Validate the merged result so partial updates get the same checks as
+    // a new submission
+    const parsed = submitRigSchema.safeParse({
+      name: rig.name,
+      tagline: rig.tagline,
+      description: rig.description,
+      category: rig.category,
+      repository: rig.repository,
+      ...body,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+    if (data.category !== rig.category && !(await getCategory(data.category))) {
+      return NextResponse.json(
+        { error: "Validation failed", details: { fieldErrors: { category: ["Unknown category"] } } },
+        { status: 400 }
+      );
+    }
+
+    const repository = {
+      provider: data.repository.provider,
+      host: data.repository.host,
+      owner: data.repository.owner,
+      name: data.repository.name,
+      branch: data.repository.branch || "main",
+      path: data.repository.path,
+    };
+    const repoChanged =
+      getProvider(repository).id !== getProvider(rig.repository).id ||
+      repository.host !== rig.repository.host ||
+      repository.owner !== rig.repository.owner ||
+      repository.name !== rig.repository.name ||
+      repository.branch !== rig.repository.branch ||
+      repository.path !== rig.repository.path;
+
+    // Only re-check the repository when the rig has moved
+    let discovery: Partial<
+      Pick<
+        typeof rigs.$inferInsert,
+        | "tags"
+        | "difficulty"
+        | "readiness"
+        | "pinnedCommitSha"
+        | "scriptHashes"
+        | "safetyReport"
+        | "consistencyIssues"
+        | "consistencyCheckedAt"
+      >
+    > = {};
+    if (repoChanged) {
+      const repoCheck = await validateRepository(repository, {
+        token: await getGitHubToken(request),
+      });
+      if (!repoCheck.valid) {
+        return NextResponse.json({ error: repoCheck.error }, { status: 422 });
+      }
+
+      const configResult = await loadRigConfig(repository);
+      if (configResult.issues.length > 0) {
+        return NextResponse.json(
+          {
+            error: "config.json does not match the rig config schema",
+            details: { configIssues: configResult.issues },
+          },
+          { status: 422 }
+        );
+      }
+
+      // The old pin points at a different repository or branch, so drop it
+      // if the new one can't be resolved
+      const pin = await pinInstallScripts(repository);
+      if (pin.error !== undefined) {
+        console.error(`Failed to pin install scripts of ${slug}:`, pin.error);
+      }
+
+      discovery = {
+        tags: configResult.config?.tags ?? [],
+        difficulty: configResult.config?.difficulty ?? null,
+        readiness: configResult.config?.status ?? null,
+        pinnedCommitSha: pin.commitSha ?? null,
+        scriptHashes: pin.scriptHashes ?? null,
+        safetyReport: pin.safetyReport ?? null,
+        consistencyIssues: configResult.config
+          ? await checkRigConsistency({ slug, repository }, configResult.config)
+          : null,
+        consistencyCheckedAt: configResult.config ? new Date() : null,
+      };
+    }
+
+    // Pointing the rig at different code, or fixing a rejected rig, sends it
+    // back to the moderation queue
+    const resubmit = repoChanged || rig.status === "rejected";
+
+    const [updated] = await db
+      .update(rigs)
+      .set({
+        name: data.name,
+        tagline: data.tagline,
+        description: data.description,
+        category: data.category,
+        repository,
+        ...discovery,
+        ...(resubmit ? { status: "pending", rejectionReason: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(rigs.slug, slug))
+      .returning();
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Failed to update rig:", error);
+    return NextResponse.json(
+      { error: "Failed to update rig" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/rigs/[slug] -- delete own rig
 export async function DELETE(
   _request: NextRequest,
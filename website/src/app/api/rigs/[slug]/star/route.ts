@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { canViewRig } from "@/lib/rigs/moderation";
+import { starRig, unstarRig } from "@/lib/rigs/stars";
+
+type StarAction = typeof starRig;
+
+async function handleStar(slug: string, action: StarAction, verb: string) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const rig = await getRigBySlug(slug);
+    if (!rig || !canViewRig(rig, session.user.login)) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    const state = await action(rig.id, session.user.login);
+    return NextResponse.json(state);
+  } catch (error) {
+    console.error(`Failed to ${verb} rig:`, error);
+    return NextResponse.json(
+      { error: `Failed to ${verb} rig` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/rigs/[slug]/star -- star a rig
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  return handleStar(slug, starRig, "star");
+}
+
+// DELETE /api/rigs/[slug]/star -- remove the current user's star
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  return handleStar(slug, unstarRig, "unstar");
+}
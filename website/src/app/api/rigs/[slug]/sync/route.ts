@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { syncRigFromConfig } from "@/lib/rigs/sync";
+import { recordConsistencyCheck } from "@/lib/rigs/consistency";
+
+// POST /api/rigs/[slug]/sync -- copy name, tagline, description, category and
+// discovery fields from the rig's config.json. Pass ?dryRun=true to preview.
+// Either way, the consistency check is re-run and recorded.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { slug } = await params;
+  const dryRun = request.nextUrl.searchParams.get("dryRun") === "true";
+
+  try {
+    const rig = await getRigBySlug(slug);
+    if (!rig) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    if (rig.submittedBy !== session.user.login) {
+      return NextResponse.json(
+        { error: "You can only sync your own rigs" },
+        { status: 403 }
+      );
+    }
+
+    const result = await syncRigFromConfig(rig, { dryRun });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    // A preview still refreshes the consistency warnings on the rig's page,
+    // so owners can confirm a fix without applying anything
+    if (dryRun) {
+      await recordConsistencyCheck(rig.id, result.consistencyIssues);
+    }
+
+    return NextResponse.json({
+      changes: result.changes,
+      consistencyIssues: result.consistencyIssues,
+      updated: result.updated,
+    });
+  } catch (error) {
+    console.error("Failed to sync rig:", error);
+    return NextResponse.json(
+      { error: "Failed to sync rig" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { canViewRig } from "@/lib/rigs/moderation";
+import { publishVersionSchema } from "@/lib/rigs/validation";
+import { getRigVersions, publishRigVersion } from "@/lib/rigs/versions";
+
+// GET /api/rigs/[slug]/versions -- release history of a rig
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  try {
+    const rig = await getRigBySlug(slug);
+
+    // Unapproved rigs 404 for everyone but their submitter and admins
+    const session = await auth();
+    if (!rig || !canViewRig(rig, session?.user?.login)) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    const versions = await getRigVersions(rig.id);
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error("Failed to fetch rig versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rig versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/rigs/[slug]/versions -- publish the rig's current commit as a new version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { slug } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = publishVersionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rig = await getRigBySlug(slug);
+    if (!rig) {
+      return NextResponse.json({ error: "Rig not found" }, { status: 404 });
+    }
+
+    if (rig.submittedBy !== session.user.login) {
+      return NextResponse.json(
+        { error: "You can only publish versions of your own rigs" },
+        { status: 403 }
+      );
+    }
+
+    const result = await publishRigVersion(rig, {
+      changelog: parsed.data.changelog || null,
+      publishedBy: session.user.login,
+    });
+
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.version, { status: 201 });
+  } catch (error) {
+    console.error("Failed to publish rig version:", error);
+    return NextResponse.json(
+      { error: "Failed to publish rig version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, getGitHubToken } from "@/lib/auth";
+import { importRigsSchema } from "@/lib/rigs/validation";
+import { hostNotAllowedMessage, isAllowedHost } from "@/lib/rigs/providers";
+import { importRigs, previewRigImport } from "@/lib/rigs/import";
+
+// POST /api/rigs/import -- scan a repository for rig folders (config.json plus
+// an install script). Without `paths`, previews every rig found and whether
+// it can be imported; with `paths`, creates those rigs in one transaction.
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.login) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = importRigsSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { repository, paths } = parsed.data;
+  if (!isAllowedHost(repository)) {
+    return NextResponse.json(
+      { error: hostNotAllowedMessage(repository) },
+      { status: 403 }
+    );
+  }
+  const options = { token: await getGitHubToken(request) };
+
+  try {
+    if (!paths) {
+      const preview = await previewRigImport(repository, options);
+      if (preview.error !== undefined) {
+        return NextResponse.json({ error: preview.error }, { status: preview.status });
+      }
+      return NextResponse.json({
+        rigs: preview.candidates.map(({ candidate }) => candidate),
+        truncated: preview.truncated,
+      });
+    }
+
+    const result = await importRigs(
+      repository,
+      paths,
+      { login: session.user.login, image: session.user.image ?? null },
+      options
+    );
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ rigs: result.rigs }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("unique") || message.includes("duplicate")) {
+      return NextResponse.json(
+        { error: "A rig with one of these slugs already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to import rigs:", error);
+    return NextResponse.json(
+      { error: "Failed to import rigs" },
+      { status: 500 }
+    );
+  }
+}
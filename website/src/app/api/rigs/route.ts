@@ -1,19 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { auth, getGitHubToken } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { rigs } from "@/lib/db/schema";
-import { submitRigSchema, validateGitHubRepo, nameToSlug } from "@/lib/rigs/validation";
-import { desc } from "drizzle-orm";
+import {
+  submitRigSchema,
+  rigPageSchema,
+  nameToSlug,
+} from "@/lib/rigs/validation";
+import { validateRepository } from "@/lib/rigs/providers";
+import { getCategory } from "@/lib/rigs/categories";
+import { loadRigConfig } from "@/lib/rigs/types";
+import { listRigs } from "@/lib/rigs/data";
+import { parseRigSearchParams } from "@/lib/rigs/search";
+import { publishRigVersion } from "@/lib/rigs/versions";
+import { autoApproveRig } from "@/lib/rigs/moderation";
+import { pinInstallScripts } from "@/lib/rigs/scripts";
+import { checkRigConsistency } from "@/lib/rigs/consistency";
+
+// GET /api/rigs -- list rigs, filtered by ?q=&category=&tag=&difficulty=&status=
+// and paginated by ?sort=&limit=&cursor=
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = parseRigSearchParams(searchParams);
+  const page = rigPageSchema.safeParse({
+    limit: searchParams.get("limit") ?? undefined,
+    cursor: searchParams.get("cursor") || undefined,
+  });
+  if (!parsed.success || !page.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid search parameters",
+        details: (parsed.error ?? page.error)?.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { cursor } = page.data;
+  if (cursor && cursor.sort !== parsed.data.sort) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
 
-// GET /api/rigs -- list all rigs
-export async function GET() {
   try {
-    const rows = await db
-      .select()
-      .from(rigs)
-      .orderBy(desc(rigs.createdAt));
+    const result = await listRigs(parsed.data, {
+      limit: page.data.limit,
+      cursor,
+    });
 
-    return NextResponse.json(rows);
+    return NextResponse.json(result);
   } catch (error) {
     console.error("Failed to fetch rigs:", error);
     return NextResponse.json(
@@ -48,12 +82,17 @@ export async function POST(request: NextRequest) {
   const data = parsed.data;
   const branch = data.repository.branch || "main";
 
-  // Validate the GitHub repo has install scripts
-  const repoCheck = await validateGitHubRepo(
-    data.repository.owner,
-    data.repository.name,
-    branch,
-    data.repository.path
+  if (!(await getCategory(data.category))) {
+    return NextResponse.json(
+      { error: "Validation failed", details: { fieldErrors: { category: ["Unknown category"] } } },
+      { status: 400 }
+    );
+  }
+
+  // Validate the repo has install scripts
+  const repoCheck = await validateRepository(
+    { ...data.repository, branch },
+    { token: await getGitHubToken(request) }
   );
 
   if (!repoCheck.valid) {
@@ -63,9 +102,37 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  // If the rig ships a config.json, it must match the rig config schema
+  const configResult = await loadRigConfig({ ...data.repository, branch });
+  if (configResult.issues.length > 0) {
+    return NextResponse.json(
+      {
+        error: "config.json does not match the rig config schema",
+        details: { configIssues: configResult.issues },
+      },
+      { status: 422 }
+    );
+  }
+
+  // Pin the install scripts to the branch's current commit for verified
+  // installs (best effort -- the owner can pin later by syncing)
+  const pin = await pinInstallScripts({ ...data.repository, branch });
+  if (pin.error !== undefined) {
+    console.error(`Failed to pin install scripts of ${data.name}:`, pin.error);
+  }
+
   // Generate slug from name
   const slug = nameToSlug(data.name);
 
+  // Flag places where config.json disagrees with the repository, so the
+  // owner sees them on the rig's page
+  const consistencyIssues = configResult.config
+    ? await checkRigConsistency(
+        { slug, repository: { ...data.repository, branch } },
+        configResult.config
+      )
+    : null;
+
   try {
     const [inserted] = await db
       .insert(rigs)
@@ -75,18 +142,48 @@ export async function POST(request: NextRequest) {
         tagline: data.tagline,
         description: data.description,
         category: data.category,
+        tags: configResult.config?.tags ?? [],
+        difficulty: configResult.config?.difficulty ?? null,
+        readiness: configResult.config?.status ?? null,
         repository: {
+          provider: data.repository.provider,
+          host: data.repository.host,
           owner: data.repository.owner,
           name: data.repository.name,
           branch,
           path: data.repository.path,
         },
+        pinnedCommitSha: pin.commitSha ?? null,
+        scriptHashes: pin.scriptHashes ?? null,
+        safetyReport: pin.safetyReport ?? null,
+        consistencyIssues,
+        consistencyCheckedAt: consistencyIssues ? new Date() : null,
         submittedBy: session.user.login,
         submittedByAvatar: session.user.image ?? null,
       })
       .returning();
 
-    return NextResponse.json(inserted, { status: 201 });
+    // Record the initial release so it can be pinned and compared later
+    // (best effort -- the rig itself was created either way). Publishing
+    // also safety-scans the install scripts, which decides auto-approval.
+    let status = inserted.status;
+    if (configResult.config) {
+      try {
+        const published = await publishRigVersion(inserted, {
+          changelog: "Initial release",
+          publishedBy: session.user.login,
+        });
+        if (published.error !== undefined) {
+          console.error(`Failed to record initial version of ${slug}:`, published.error);
+        } else if (await autoApproveRig(inserted.id, published.version.safetyReport)) {
+          status = "approved";
+        }
+      } catch (versionError) {
+        console.error(`Failed to record initial version of ${slug}:`, versionError);
+      }
+    }
+
+    return NextResponse.json({ ...inserted, status }, { status: 201 });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     if (message.includes("unique") || message.includes("duplicate")) {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSerializedRigIndex, matchesETag } from "@/lib/rigs/index-feed";
+
+export const dynamic = "force-dynamic";
+
+// Clients should revalidate on every poll; If-None-Match makes that cheap
+const CACHE_CONTROL = "public, max-age=0, must-revalidate";
+
+// GET /api/v1/index.json -- every approved rig with its config.json and
+// install commands. See RigIndex in lib/rigs/types for the schema.
+export async function GET(request: NextRequest) {
+  try {
+    const { body, etag } = await getSerializedRigIndex();
+
+    if (matchesETag(request.headers.get("if-none-match"), etag)) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ETag: etag, "Cache-Control": CACHE_CONTROL },
+      });
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "application/json",
+        ETag: etag,
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to build rig index:", error);
+    return NextResponse.json(
+      { error: "Failed to build rig index" },
+      { status: 500 }
+    );
+  }
+}
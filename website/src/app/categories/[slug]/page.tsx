@@ -0,0 +1,90 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { CategoryIcon } from "@/components/rigs/category-icon";
+import { RigGrid } from "@/components/rigs/rig-grid";
+import { auth } from "@/lib/auth";
+import { getCategory, listCategories } from "@/lib/rigs/categories";
+import { listRigs } from "@/lib/rigs/data";
+import { buildRigSearchHref, toRigSearchQuery } from "@/lib/rigs/search";
+import { getStarredRigIds } from "@/lib/rigs/stars";
+import type { RigSearchFilters } from "@/lib/rigs/validation";
+
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 24;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const category = await getCategory(slug);
+  if (!category) return { title: "Not Found" };
+  return {
+    title: `${category.label} Rigs | AI Foundry`,
+    description: category.description || undefined,
+  };
+}
+
+export default async function CategoryPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const category = await getCategory(slug);
+
+  if (!category) notFound();
+
+  const filters: RigSearchFilters = { category: category.slug, tag: [], sort: "newest" };
+  const [page, categories, session] = await Promise.all([
+    listRigs(filters, { limit: PAGE_SIZE }),
+    listCategories(),
+    auth(),
+  ]);
+  const starredRigIds = await getStarredRigIds(session?.user?.login);
+
+  return (
+    <div className="container mx-auto px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="flex items-center gap-3 text-4xl font-bold tracking-tight">
+          <CategoryIcon icon={category.icon} className="h-8 w-8" />
+          {category.label}
+        </h1>
+        {category.description && (
+          <p className="mt-2 text-lg text-muted-foreground">{category.description}</p>
+        )}
+        <p className="mt-2 text-sm text-muted-foreground">
+          <Link href={buildRigSearchHref(filters)} className="text-primary hover:underline">
+            Search and filter these rigs
+          </Link>{" "}
+          or{" "}
+          <Link href="/rigs" className="text-primary hover:underline">
+            browse every rig
+          </Link>
+          .
+        </p>
+      </div>
+
+      {page.rigs.length === 0 ? (
+        <p className="text-muted-foreground">
+          No rigs in this category yet.{" "}
+          <Link href="/rigs/submit" className="text-primary hover:underline">
+            Submit one
+          </Link>
+          .
+        </p>
+      ) : (
+        <RigGrid
+          initialRigs={page.rigs}
+          initialCursor={page.nextCursor}
+          total={page.total}
+          query={toRigSearchQuery(filters)}
+          starredRigIds={starredRigIds}
+          categories={categories}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { RigCard } from "@/components/rigs/rig-card";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
+import { getStarredRigs } from "@/lib/rigs/data";
+
+export const metadata = {
+  title: "Starred Rigs | AI Foundry",
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function StarredRigsPage() {
+  const session = await auth();
+
+  if (!session?.user?.login) {
+    redirect("/api/auth/signin?callbackUrl=/me/stars");
+  }
+
+  const [rigs, categories] = await Promise.all([
+    getStarredRigs(session.user.login),
+    listCategories(),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Starred Rigs</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          Rigs you&apos;ve starred, most recent first.
+        </p>
+      </div>
+
+      {rigs.length === 0 ? (
+        <p className="text-muted-foreground">
+          You haven&apos;t starred any rigs yet.{" "}
+          <Link href="/rigs" className="text-primary hover:underline">
+            Browse rigs
+          </Link>{" "}
+          and star the ones you want to keep track of.
+        </p>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {rigs.map((rig) => (
+            <RigCard key={rig.slug} rig={rig} categories={categories} starred />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,20 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { RigCard } from "@/components/rigs/rig-card";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
 import { getAllRigs } from "@/lib/rigs/data";
+import { getStarredRigIds } from "@/lib/rigs/stars";
 
 export const dynamic = "force-dynamic";
 
 export default async function Home() {
-  const rigs = await getAllRigs();
+  const [rigs, categories, session] = await Promise.all([
+    getAllRigs(),
+    listCategories(),
+    auth(),
+  ]);
+  const starredRigIds = await getStarredRigIds(session?.user?.login);
   const featuredRigs = rigs.slice(0, 3);
 
   return (
@@ -95,7 +103,12 @@ export default async function Home() {
           </div>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
             {featuredRigs.map((rig) => (
-              <RigCard key={rig.slug} rig={rig} />
+              <RigCard
+                key={rig.slug}
+                rig={rig}
+                categories={categories}
+                starred={starredRigIds.includes(rig.id)}
+              />
             ))}
           </div>
         </section>
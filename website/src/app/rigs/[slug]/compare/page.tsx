@@ -0,0 +1,251 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ComparePicker } from "@/components/rigs/compare-picker";
+import { FileDiff, type DiffView } from "@/components/rigs/file-diff";
+import { auth } from "@/lib/auth";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { getRigVersions } from "@/lib/rigs/versions";
+import { canViewRig } from "@/lib/rigs/moderation";
+import {
+  LATEST_REF,
+  compareInstallerActions,
+  compareRigFiles,
+  getComparedFileNames,
+  loadCompareConfig,
+  resolveCompareSide,
+} from "@/lib/rigs/compare";
+import { getCompareUrl } from "@/lib/rigs/types";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const [rig, session] = await Promise.all([getRigBySlug(slug), auth()]);
+  if (!rig || !canViewRig(rig, session?.user?.login)) return { title: "Not Found" };
+  return {
+    title: `Compare ${rig.name} | AI Foundry`,
+    description: `What changed in ${rig.name} between versions`,
+  };
+}
+
+export default async function CompareRigPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{
+    from?: string | string[];
+    to?: string | string[];
+    view?: string | string[];
+  }>;
+}) {
+  const { slug } = await params;
+  const query = await searchParams;
+  const rig = await getRigBySlug(slug);
+
+  if (!rig) notFound();
+
+  const [session, versions] = await Promise.all([auth(), getRigVersions(rig.id)]);
+  if (!canViewRig(rig, session?.user?.login)) notFound();
+
+  // By default, compare the newest published version with the branch
+  const to = typeof query.to === "string" ? query.to : LATEST_REF;
+  const from =
+    typeof query.from === "string" ? query.from : versions[0]?.version ?? null;
+  const view: DiffView = query.view === "split" ? "split" : "unified";
+
+  const viewHref = (next: DiffView) => {
+    const params = new URLSearchParams({ ...(from ? { from } : {}), to, view: next });
+    return `/rigs/${rig.slug}/compare?${params}`;
+  };
+
+  const header = (
+    <div className="mb-8">
+      <Link
+        href={`/rigs/${rig.slug}`}
+        className="text-sm text-muted-foreground hover:underline"
+      >
+        &larr; {rig.name}
+      </Link>
+      <h1 className="mt-2 text-4xl font-bold tracking-tight">Compare Versions</h1>
+      <p className="mt-2 text-xl text-muted-foreground">
+        See exactly what changed in the installer and the rig&apos;s files
+        before updating.
+      </p>
+    </div>
+  );
+
+  if (!from) {
+    return (
+      <div className="container mx-auto px-4 py-12 sm:px-8">
+        {header}
+        <p className="text-muted-foreground">
+          This rig has no published versions to compare yet.
+        </p>
+      </div>
+    );
+  }
+
+  const [fromResult, toResult] = await Promise.all([
+    resolveCompareSide(rig, versions, from),
+    resolveCompareSide(rig, versions, to),
+  ]);
+  const error = fromResult.error ?? toResult.error;
+
+  let body: React.ReactNode;
+  if (error !== undefined || !fromResult.side || !toResult.side) {
+    body = <p className="text-sm text-red-500">{error}</p>;
+  } else {
+    const fromSide = fromResult.side;
+    const toSide = toResult.side;
+    const [fromConfig, toConfig] = await Promise.all([
+      loadCompareConfig(rig, fromSide),
+      loadCompareConfig(rig, toSide),
+    ]);
+    const files = await compareRigFiles(
+      rig,
+      fromSide.commitSha,
+      toSide.commitSha,
+      getComparedFileNames(fromConfig, toConfig)
+    );
+    const actions = compareInstallerActions(
+      fromConfig?.installerActions ?? [],
+      toConfig?.installerActions ?? []
+    );
+    const hasActionChanges =
+      actions.added.length + actions.removed.length + actions.changed.length > 0;
+    const changedFiles = files.filter((file) => file.status !== "unchanged");
+    const commitRange = `(${fromSide.commitSha.slice(0, 7)}...${toSide.commitSha.slice(0, 7)})`;
+    const compareUrl = getCompareUrl(rig.repository, fromSide.commitSha, toSide.commitSha);
+
+    body = (
+      <div className="space-y-8">
+        <p className="text-sm text-muted-foreground">
+          Comparing {fromSide.label}{" "}
+          {compareUrl ? (
+            <a
+              href={compareUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono hover:underline"
+            >
+              {commitRange}
+            </a>
+          ) : (
+            <span className="font-mono">{commitRange}</span>
+          )}{" "}
+          with {toSide.label}. {changedFiles.length} of {files.length} files
+          changed.
+        </p>
+
+        {/* Installer Actions */}
+        <Card
+          className={hasActionChanges ? "border-amber-500/20 bg-amber-500/5" : undefined}
+        >
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Installer Actions</CardTitle>
+            <CardDescription>
+              {!fromConfig || !toConfig
+                ? "config.json couldn't be loaded on both sides, so installer actions can't be compared."
+                : hasActionChanges
+                  ? "What the installer does differently, according to config.json."
+                  : "The installer's listed actions are the same in both versions."}
+            </CardDescription>
+          </CardHeader>
+          {hasActionChanges && (
+            <CardContent>
+              <ul className="space-y-3 text-sm">
+                {actions.added.map((action) => (
+                  <li key={`added-${action.label}`}>
+                    <p className="font-medium text-green-700 dark:text-green-400">
+                      + {action.label}
+                    </p>
+                    <p className="text-muted-foreground">{action.detail}</p>
+                  </li>
+                ))}
+                {actions.removed.map((action) => (
+                  <li key={`removed-${action.label}`}>
+                    <p className="font-medium text-red-700 dark:text-red-400 line-through">
+                      - {action.label}
+                    </p>
+                    <p className="text-muted-foreground">{action.detail}</p>
+                  </li>
+                ))}
+                {actions.changed.map((change) => (
+                  <li key={`changed-${change.label}`}>
+                    <p className="font-medium">~ {change.label}</p>
+                    <p className="text-red-700 dark:text-red-400">
+                      {change.before.detail}
+                    </p>
+                    <p className="text-green-700 dark:text-green-400">
+                      {change.after.detail}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Files */}
+        <section className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-2xl font-semibold">Files</h2>
+            <div className="flex gap-2">
+              <Button
+                asChild
+                size="sm"
+                variant={view === "unified" ? "secondary" : "ghost"}
+              >
+                <Link href={viewHref("unified")}>Unified</Link>
+              </Button>
+              <Button
+                asChild
+                size="sm"
+                variant={view === "split" ? "secondary" : "ghost"}
+              >
+                <Link href={viewHref("split")}>Side by side</Link>
+              </Button>
+            </div>
+          </div>
+          {files.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No files to compare.</p>
+          ) : (
+            files.map((file) => (
+              <FileDiff key={file.name} comparison={file} view={view} />
+            ))
+          )}
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-12 sm:px-8">
+      {header}
+      <div className="mb-8">
+        <ComparePicker
+          slug={rig.slug}
+          branch={rig.repository.branch}
+          versions={versions.map((v) => v.version)}
+          from={from}
+          to={to}
+          view={view}
+        />
+      </div>
+      {body}
+    </div>
+  );
+}
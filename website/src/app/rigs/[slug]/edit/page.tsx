@@ -0,0 +1,50 @@
+import { notFound, redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
+import { getRigBySlug } from "@/lib/rigs/data";
+import { SubmitRigForm } from "@/components/rigs/submit-form";
+
+export const metadata = {
+  title: "Edit Rig | AI Foundry",
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function EditRigPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect(`/api/auth/signin?callbackUrl=/rigs/${slug}/edit`);
+  }
+
+  const [rig, categories] = await Promise.all([getRigBySlug(slug), listCategories()]);
+  if (!rig || rig.submittedBy !== session.user.login) notFound();
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Edit {rig.name}</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          Update your rig&apos;s details or move it to another branch or path.
+          The rig keeps its URL.
+        </p>
+      </div>
+      <SubmitRigForm
+        categories={categories}
+        rig={{
+          slug: rig.slug,
+          name: rig.name,
+          tagline: rig.tagline,
+          description: rig.description,
+          category: rig.category,
+          repository: rig.repository,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import Link from "next/link";
 import { notFound } from "next/navigation";
+import { headers } from "next/headers";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,31 +10,45 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { CategoryBadge } from "@/components/rigs/category-badge";
+import { HealthBadge } from "@/components/rigs/health-badge";
+import { PublishVersionForm } from "@/components/rigs/publish-version-form";
+import { StarButton } from "@/components/rigs/star-button";
+import { InstallTabs } from "@/components/rigs/install-tabs";
+import { RigFileViewer } from "@/components/rigs/file-viewer";
+import { ScriptSafety } from "@/components/rigs/script-safety";
+import { SyncRigPanel } from "@/components/rigs/sync-rig-panel";
+import { VersionPicker } from "@/components/rigs/version-picker";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
 import { getRigBySlug } from "@/lib/rigs/data";
+import { getRigVersions } from "@/lib/rigs/versions";
+import { getInstallBreakdown } from "@/lib/rigs/installs";
+import { getHealthHistory } from "@/lib/rigs/health";
+import { isRigStarred } from "@/lib/rigs/stars";
+import { fileAnchorId, getViewableFileNames } from "@/lib/rigs/files";
+import { canViewRig } from "@/lib/rigs/moderation";
+import { getProvider } from "@/lib/rigs/providers";
 import {
   buildInstallCommands,
+  buildVerifiedInstallCommands,
+  getCommitUrl,
   getRepoUrl,
-  getFileUrl,
-  fetchRigConfig,
+  loadRigConfig,
+  getInstallSuccessRate,
+  type RigConfigResult,
 } from "@/lib/rigs/types";
 
 export const dynamic = "force-dynamic";
 
-const categoryLabels: Record<string, string> = {
-  "ci-cd": "CI/CD",
-  coding: "Coding",
-  personal: "Personal",
-  automation: "Automation",
-};
-
 export async function generateMetadata({
   params,
 }: {
   params: Promise<{ slug: string }>;
 }) {
   const { slug } = await params;
-  const rig = await getRigBySlug(slug);
-  if (!rig) return { title: "Not Found" };
+  const [rig, session] = await Promise.all([getRigBySlug(slug), auth()]);
+  if (!rig || !canViewRig(rig, session?.user?.login)) return { title: "Not Found" };
   return {
     title: `${rig.name} | AI Foundry`,
     description: rig.tagline,
@@ -41,19 +57,64 @@ export async function generateMetadata({
 
 export default async function RigDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ version?: string | string[] }>;
 }) {
   const { slug } = await params;
+  const { version: requestedVersion } = await searchParams;
   const rig = await getRigBySlug(slug);
 
   if (!rig) notFound();
 
-  const installCommands = buildInstallCommands(rig.repository);
-  const repoUrl = getRepoUrl(rig.repository);
+  const [session, versions, installBreakdown, categories, requestHeaders] = await Promise.all([
+    auth(),
+    getRigVersions(rig.id),
+    getInstallBreakdown(rig.id),
+    listCategories(),
+    headers(),
+  ]);
+  // Pending and rejected rigs are hidden from everyone but their submitter
+  // and admins
+  if (!canViewRig(rig, session?.user?.login)) notFound();
+
+  const isOwner = session?.user?.login === rig.submittedBy;
+  const starred = session?.user?.login
+    ? await isRigStarred(rig.id, session.user.login)
+    : false;
+  // Owners see when their rig failed a health check, not just the latest result
+  const healthFailures = isOwner
+    ? (await getHealthHistory(rig.id)).filter((check) => check.status !== "healthy")
+    : [];
+
+  // A selected version pins everything on the page to its commit; otherwise
+  // show the live state of the branch
+  const selectedVersion =
+    typeof requestedVersion === "string"
+      ? versions.find((v) => v.version === requestedVersion) ?? null
+      : null;
+  const ref = selectedVersion?.commitSha ?? rig.repository.branch;
+  // Scans are stored per version; the live branch shows the latest one
+  const scannedVersion = selectedVersion ?? versions[0] ?? null;
 
-  // Fetch full config from the rig's config.json
-  const config = await fetchRigConfig(rig.repository);
+  const installCommands = buildInstallCommands(rig.repository, ref);
+  // Verified installs use the selected version's hashes, or the commit the
+  // rig was pinned to on its last submit or sync
+  const pin = selectedVersion?.scriptHashes
+    ? { commitSha: selectedVersion.commitSha, hashes: selectedVersion.scriptHashes }
+    : rig.pinnedCommitSha && rig.scriptHashes
+      ? { commitSha: rig.pinnedCommitSha, hashes: rig.scriptHashes }
+      : null;
+  const successRate = getInstallSuccessRate(rig);
+  const siteOrigin = `${requestHeaders.get("x-forwarded-proto") ?? "https"}://${requestHeaders.get("host")}`;
+  const repoUrl = getRepoUrl(rig.repository, ref);
+  const hostLabel = rig.repository.host ?? getProvider(rig.repository).label;
+
+  // Fetch full config from the rig's config.json, or use the version's snapshot
+  const { config, issues: configIssues }: RigConfigResult = selectedVersion
+    ? { config: selectedVersion.config, issues: [] }
+    : await loadRigConfig(rig.repository);
 
   return (
     <div className="container mx-auto px-4 py-12 sm:px-8">
@@ -62,9 +123,14 @@ export default async function RigDetailPage({
         <h1 className="text-4xl font-bold tracking-tight">{rig.name}</h1>
         <p className="mt-2 text-xl text-muted-foreground">{rig.tagline}</p>
         <div className="mt-4 flex flex-wrap items-center gap-3">
-          <Badge variant="secondary">
-            {categoryLabels[rig.category] ?? rig.category}
-          </Badge>
+          <CategoryBadge category={rig.category} categories={categories} link />
+          {rig.healthStatus && (
+            <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <HealthBadge status={rig.healthStatus} checkedAt={rig.healthCheckedAt} />
+              {rig.healthCheckedAt &&
+                `checked ${rig.healthCheckedAt.toLocaleDateString()}`}
+            </span>
+          )}
           {config?.tags?.map((tag) => (
             <Badge key={tag} variant="outline">
               {tag}
@@ -79,46 +145,240 @@ export default async function RigDetailPage({
               />
             )}
             by{" "}
-            <a
-              href={`https://github.com/${rig.submittedBy}`}
-              target="_blank"
-              rel="noopener noreferrer"
+            <Link
+              href={`/users/${rig.submittedBy}`}
               className="text-primary hover:underline"
             >
               {rig.submittedBy}
-            </a>
+            </Link>
           </span>
+          <StarButton
+            slug={rig.slug}
+            starred={starred}
+            starCount={rig.starCount}
+          />
+          {isOwner && (
+            <Button asChild variant="outline" size="sm">
+              <Link href={`/rigs/${rig.slug}/edit`}>Edit rig</Link>
+            </Button>
+          )}
         </div>
+        {versions.length > 0 && (
+          <div className="mt-4 flex items-center gap-3">
+            <VersionPicker
+              slug={rig.slug}
+              branch={rig.repository.branch}
+              versions={versions.map((v) => v.version)}
+              selected={selectedVersion?.version ?? null}
+            />
+            {selectedVersion && (
+              <span className="text-sm text-muted-foreground">
+                Pinned to commit{" "}
+                <span className="font-mono">
+                  {selectedVersion.commitSha.slice(0, 7)}
+                </span>
+              </span>
+            )}
+            <Link
+              href={`/rigs/${rig.slug}/compare${selectedVersion ? `?from=${encodeURIComponent(selectedVersion.version)}` : ""}`}
+              className="text-sm text-primary hover:underline"
+            >
+              {selectedVersion ? "Compare with latest" : "Compare versions"}
+            </Link>
+          </div>
+        )}
       </div>
 
       <div className="grid gap-8 lg:grid-cols-3">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-8">
+          {/* Moderation */}
+          {rig.status === "pending" && (
+            <Card className="border-amber-500/20 bg-amber-500/5">
+              <CardHeader>
+                <CardTitle className="text-lg">Pending Review</CardTitle>
+                <CardDescription>
+                  This rig isn&apos;t listed publicly yet. Only you and the
+                  site admins can see it until an admin approves it.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+          {rig.status === "rejected" && (
+            <Card className="border-red-500/20 bg-red-500/5">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Rejected</CardTitle>
+                <CardDescription>
+                  An admin rejected this rig, so it isn&apos;t listed publicly.
+                  {isOwner && " Edit the rig to address the feedback and it will go back into the review queue."}
+                </CardDescription>
+              </CardHeader>
+              {rig.rejectionReason && (
+                <CardContent>
+                  <p className="whitespace-pre-wrap text-sm">{rig.rejectionReason}</p>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
           {/* Quick Install */}
           <Card className="border-primary/20 bg-primary/5">
             <CardHeader className="pb-3">
               <CardTitle className="text-lg">Quick Install</CardTitle>
               <CardDescription>
-                Run one command in your project directory.
+                {selectedVersion
+                  ? `Run one command in your project directory to install v${selectedVersion.version}.`
+                  : "Run one command in your project directory."}
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div>
-                <p className="text-xs font-medium text-muted-foreground mb-1">
-                  PowerShell (Windows)
-                </p>
-                <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-sm">
-                  <code>{installCommands.powershell}</code>
-                </pre>
-              </div>
-              <div>
-                <p className="text-xs font-medium text-muted-foreground mb-1">
-                  Bash (macOS / Linux)
-                </p>
-                <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-sm">
-                  <code>{installCommands.bash}</code>
-                </pre>
-              </div>
+            <CardContent>
+              <InstallTabs
+                quick={installCommands}
+                verified={
+                  pin
+                    ? {
+                        ...buildVerifiedInstallCommands(rig.repository, pin.commitSha, pin.hashes),
+                        commitSha: pin.commitSha,
+                      }
+                    : null
+                }
+              />
+            </CardContent>
+          </Card>
+
+          {/* Invalid Config */}
+          {configIssues.length > 0 && (
+            <Card className="border-red-500/20 bg-red-500/5">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Config Invalid</CardTitle>
+                <CardDescription>
+                  This rig&apos;s config.json does not match the rig config
+                  schema, so its details can&apos;t be shown. The owner needs
+                  to fix the following fields:
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {configIssues.map((issue, i) => (
+                    <li key={i}>
+                      <span className="font-mono text-red-700 dark:text-red-400">
+                        {issue.path}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        -- {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Health History (owner only) */}
+          {isOwner && healthFailures.length > 0 && (
+            <Card className="border-red-500/20 bg-red-500/5">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Health History</CardTitle>
+                <CardDescription>
+                  Only you can see this. The daily health check couldn&apos;t
+                  install this rig {healthFailures.length} time
+                  {healthFailures.length === 1 ? "" : "s"} recently
+                  {rig.healthStatus === "healthy" &&
+                    ", but the latest check passed"}
+                  .
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3 text-sm">
+                  {healthFailures.map((check) => (
+                    <li key={check.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <HealthBadge status={check.status} checkedAt={check.checkedAt} />
+                        <span className="text-muted-foreground">
+                          {check.checkedAt.toLocaleString()}
+                        </span>
+                      </div>
+                      <ul className="space-y-0.5">
+                        {check.problems.map((problem, i) => (
+                          <li key={i} className="text-muted-foreground">
+                            {problem.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Consistency Warnings (owner only) */}
+          {isOwner && rig.consistencyIssues && rig.consistencyIssues.length > 0 && (
+            <Card className="border-amber-500/20 bg-amber-500/5">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Config Warnings</CardTitle>
+                <CardDescription>
+                  Only you can see this. config.json doesn&apos;t match the
+                  repository in {rig.consistencyIssues.length} place
+                  {rig.consistencyIssues.length === 1 ? "" : "s"}
+                  {rig.consistencyCheckedAt &&
+                    ` (checked ${rig.consistencyCheckedAt.toLocaleDateString()})`}
+                  . Fix config.json, then use Check for changes under Sync
+                  From config.json to re-check.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {rig.consistencyIssues.map((issue, i) => (
+                    <li key={i}>
+                      <span className="font-mono text-amber-700 dark:text-amber-400">
+                        {issue.field}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        -- {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Script Safety */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Script Safety</CardTitle>
+              <CardDescription>
+                {scannedVersion?.safetyReport
+                  ? `Automated scan of the install scripts at v${scannedVersion.version} (commit ${scannedVersion.commitSha.slice(0, 7)}).${selectedVersion ? "" : " The branch may have changed since."} Always read a script before running it.`
+                  : "The install scripts haven't been scanned yet. Read them before running."}
+              </CardDescription>
+            </CardHeader>
+            {scannedVersion?.safetyReport && (
+              <CardContent>
+                <ScriptSafety report={scannedVersion.safetyReport} />
+              </CardContent>
+            )}
+          </Card>
+
+          {/* File Viewer */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">View Files</CardTitle>
+              <CardDescription>
+                Read the installer and the rig&apos;s files before running
+                anything.
+                {selectedVersion && ` Showing v${selectedVersion.version}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RigFileViewer
+                repository={rig.repository}
+                gitRef={ref}
+                fileNames={getViewableFileNames(config?.files)}
+              />
             </CardContent>
           </Card>
 
@@ -210,6 +470,52 @@ export default async function RigDetailPage({
                 </ol>
               </section>
             )}
+
+          {/* Release History */}
+          {versions.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-semibold mb-4">Release History</h2>
+              <ol className="space-y-4">
+                {versions.map((version, i) => (
+                  <li key={version.id} className="border-l-2 pl-4">
+                    <div className="flex flex-wrap items-baseline gap-2">
+                      <Link
+                        href={`/rigs/${rig.slug}?version=${encodeURIComponent(version.version)}`}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        v{version.version}
+                      </Link>
+                      <a
+                        href={getCommitUrl(rig.repository, version.commitSha)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs text-muted-foreground hover:underline"
+                      >
+                        {version.commitSha.slice(0, 7)}
+                      </a>
+                      <span className="text-xs text-muted-foreground">
+                        {version.createdAt.toLocaleDateString()} by{" "}
+                        {version.publishedBy}
+                      </span>
+                      {i < versions.length - 1 && (
+                        <Link
+                          href={`/rigs/${rig.slug}/compare?from=${encodeURIComponent(versions[i + 1].version)}&to=${encodeURIComponent(version.version)}`}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          Changes since v{versions[i + 1].version}
+                        </Link>
+                      )}
+                    </div>
+                    {version.changelog && (
+                      <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">
+                        {version.changelog}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -277,11 +583,44 @@ export default async function RigDetailPage({
             </Card>
           )}
 
+          {/* Installs */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Installs</CardTitle>
+              <CardDescription>Reported by installers that opted in</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-6">
+                <div>
+                  <p className="text-2xl font-semibold">{rig.installCount}</p>
+                  <p className="text-xs text-muted-foreground">successful</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold">
+                    {successRate === null ? "--" : `${Math.round(successRate * 100)}%`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">success rate</p>
+                </div>
+              </div>
+              {installBreakdown.map((row) => (
+                <p key={row.installer} className="text-xs text-muted-foreground">
+                  {row.installer === "powershell" ? "PowerShell" : "Bash"}:{" "}
+                  {row.successes} succeeded, {row.failures} failed
+                </p>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                To share an anonymous report when you install, set{" "}
+                <code className="font-mono">AI_FOUNDRY_URL={siteOrigin}</code>{" "}
+                before running the installer.
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Source */}
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Source</CardTitle>
-              <CardDescription>View the rig on GitHub</CardDescription>
+              <CardDescription>View the rig on {hostLabel}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
               <div>
@@ -320,17 +659,13 @@ export default async function RigDetailPage({
             </CardHeader>
             <CardContent className="space-y-2">
               <a
-                href={getFileUrl(rig.repository, "install.ps1")}
-                target="_blank"
-                rel="noopener noreferrer"
+                href={`#${fileAnchorId("install.ps1")}`}
                 className="block text-sm text-primary hover:underline"
               >
                 install.ps1
               </a>
               <a
-                href={getFileUrl(rig.repository, "install.sh")}
-                target="_blank"
-                rel="noopener noreferrer"
+                href={`#${fileAnchorId("install.sh")}`}
                 className="block text-sm text-primary hover:underline"
               >
                 install.sh
@@ -360,9 +695,7 @@ export default async function RigDetailPage({
                         </a>
                       ) : file.path ? (
                         <a
-                          href={getFileUrl(rig.repository, file.name)}
-                          target="_blank"
-                          rel="noopener noreferrer"
+                          href={`#${fileAnchorId(file.name)}`}
                           className="text-primary hover:underline"
                         >
                           {file.name}
@@ -390,9 +723,41 @@ export default async function RigDetailPage({
             </Card>
           )}
 
+          {/* Sync From Config (owner only) */}
+          {isOwner && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Sync From config.json</CardTitle>
+                <CardDescription>
+                  Copy the name, tagline, description, category and tags from
+                  config.json into the catalog.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SyncRigPanel slug={rig.slug} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Publish Version (owner only) */}
+          {isOwner && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Publish a Version</CardTitle>
+                <CardDescription>
+                  Snapshot the current commit of {rig.repository.branch}. Bump
+                  the version in config.json first.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PublishVersionForm slug={rig.slug} />
+              </CardContent>
+            </Card>
+          )}
+
           <Button asChild variant="outline" className="w-full">
             <a href={repoUrl} target="_blank" rel="noopener noreferrer">
-              View on GitHub
+              View on {hostLabel}
             </a>
           </Button>
         </div>
@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
+import { ImportRigsForm } from "@/components/rigs/import-form";
+
+export const metadata = {
+  title: "Import Rigs | AI Foundry",
+  description: "Submit every rig in a repository at once.",
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function ImportRigsPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect("/api/auth/signin?callbackUrl=/rigs/import");
+  }
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-12 sm:px-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Import Rigs</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          Submit every rig in a repository at once. Each rig&apos;s name,
+          description and category come from its config.json.
+        </p>
+      </div>
+      <ImportRigsForm categories={await listCategories()} />
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
-import { RigCard } from "@/components/rigs/rig-card";
-import { getAllRigs } from "@/lib/rigs/data";
+import { RigFilters } from "@/components/rigs/rig-filters";
+import { RigGrid } from "@/components/rigs/rig-grid";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
+import { getRigFacets, listRigs } from "@/lib/rigs/data";
+import {
+  hasActiveFilters,
+  parseRigSearchParams,
+  toRigSearchQuery,
+} from "@/lib/rigs/search";
+import { getStarredRigIds } from "@/lib/rigs/stars";
+import type { RigSearchFilters } from "@/lib/rigs/validation";
 
 export const metadata = {
   title: "Rigs | AI Foundry",
@@ -8,8 +18,27 @@ export const metadata = {
 
 export const dynamic = "force-dynamic";
 
-export default async function RigsPage() {
-  const rigs = await getAllRigs();
+const PAGE_SIZE = 24;
+
+export default async function RigsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const parsed = parseRigSearchParams(await searchParams);
+  // Ignore malformed params rather than erroring -- just show the full catalog
+  const filters: RigSearchFilters = parsed.success
+    ? parsed.data
+    : { tag: [], sort: "newest" };
+  const query = toRigSearchQuery(filters);
+
+  const [page, facets, categories, session] = await Promise.all([
+    listRigs(filters, { limit: PAGE_SIZE }),
+    getRigFacets(),
+    listCategories(),
+    auth(),
+  ]);
+  const starredRigIds = await getStarredRigIds(session?.user?.login);
 
   return (
     <div className="container mx-auto px-4 py-12 sm:px-8">
@@ -17,18 +46,31 @@ export default async function RigsPage() {
         <h1 className="text-4xl font-bold tracking-tight">Rigs</h1>
         <p className="mt-2 text-lg text-muted-foreground">
           AI workflows you can install with one command and try in your own
-          projects. Each rig is a package hosted on GitHub.
+          projects. Each rig is a package hosted in a Git repository.
         </p>
       </div>
 
-      {rigs.length === 0 ? (
-        <p className="text-muted-foreground">No rigs yet. Be the first to submit one!</p>
+      <div className="mb-8">
+        <RigFilters filters={filters} facets={facets} categories={categories} />
+      </div>
+
+      {page.rigs.length === 0 ? (
+        <p className="text-muted-foreground">
+          {hasActiveFilters(filters)
+            ? "No rigs match your search."
+            : "No rigs yet. Be the first to submit one!"}
+        </p>
       ) : (
-        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-          {rigs.map((rig) => (
-            <RigCard key={rig.slug} rig={rig} />
-          ))}
-        </div>
+        // Keyed by the query so changing filters resets loaded pages
+        <RigGrid
+          key={query}
+          initialRigs={page.rigs}
+          initialCursor={page.nextCursor}
+          total={page.total}
+          query={query}
+          starredRigIds={starredRigIds}
+          categories={categories}
+        />
       )}
     </div>
   );
@@ -1,5 +1,7 @@
+import Link from "next/link";
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
 import { SubmitRigForm } from "@/components/rigs/submit-form";
 
 export const metadata = {
@@ -7,6 +9,8 @@ export const metadata = {
   description: "Share your AI rig with the community.",
 };
 
+export const dynamic = "force-dynamic";
+
 export default async function SubmitRigPage() {
   const session = await auth();
 
@@ -20,10 +24,18 @@ export default async function SubmitRigPage() {
         <h1 className="text-4xl font-bold tracking-tight">Submit a Rig</h1>
         <p className="mt-2 text-lg text-muted-foreground">
           Share your AI workflow with the community. Your rig must be hosted in a
-          public GitHub repo with an install.ps1 or install.sh script.
+          public GitHub, GitLab or Bitbucket repo with an install.ps1 or
+          install.sh script.
+        </p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Have several rigs in one repository?{" "}
+          <Link href="/rigs/import" className="text-primary hover:underline">
+            Import them all at once
+          </Link>
+          .
         </p>
       </div>
-      <SubmitRigForm />
+      <SubmitRigForm categories={await listCategories()} />
     </div>
   );
 }
@@ -0,0 +1,130 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { DeleteRigButton } from "@/components/rigs/delete-rig-button";
+import { RigCard } from "@/components/rigs/rig-card";
+import { auth } from "@/lib/auth";
+import { listCategories } from "@/lib/rigs/categories";
+import { getRigsBySubmitter } from "@/lib/rigs/data";
+import { getStarredRigIds } from "@/lib/rigs/stars";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ login: string }>;
+}) {
+  const { login } = await params;
+  return {
+    title: `${login} | AI Foundry`,
+    description: `Rigs submitted by ${login}.`,
+  };
+}
+
+export default async function UserProfilePage({
+  params,
+}: {
+  params: Promise<{ login: string }>;
+}) {
+  const { login } = await params;
+  const session = await auth();
+  const isOwner = session?.user?.login === login;
+  // Submitters see their pending and rejected rigs too
+  const rigs = await getRigsBySubmitter(login, { includeUnapproved: isOwner });
+
+  // Users only exist on the site through the rigs they submit, so an unknown
+  // login is a 404 -- except on your own profile before your first submission
+  if (rigs.length === 0 && !isOwner) notFound();
+
+  const [starredRigIds, categories] = await Promise.all([
+    getStarredRigIds(session?.user?.login),
+    listCategories(),
+  ]);
+  const avatar =
+    rigs.find((rig) => rig.submittedByAvatar)?.submittedByAvatar ??
+    (isOwner ? session?.user?.image : null);
+
+  const stats = [
+    { label: rigs.length === 1 ? "rig" : "rigs", value: rigs.length },
+    {
+      label: "installs",
+      value: rigs.reduce((total, rig) => total + rig.installCount, 0),
+    },
+    {
+      label: "stars",
+      value: rigs.reduce((total, rig) => total + rig.starCount, 0),
+    },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-12 sm:px-8">
+      {/* Header */}
+      <div className="mb-8 flex flex-wrap items-center gap-6">
+        {avatar && (
+          <img src={avatar} alt={login} className="h-20 w-20 rounded-full" />
+        )}
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">{login}</h1>
+          <a
+            href={`https://github.com/${login}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-primary hover:underline"
+          >
+            View on GitHub
+          </a>
+        </div>
+        <Card className="py-4 sm:ml-auto">
+          <CardContent className="flex gap-6">
+            {stats.map((stat) => (
+              <div key={stat.label}>
+                <p className="text-2xl font-semibold">{stat.value}</p>
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {rigs.length === 0 ? (
+        <p className="text-muted-foreground">
+          You haven&apos;t submitted any rigs yet.{" "}
+          <Link href="/rigs/submit" className="text-primary hover:underline">
+            Submit your first rig
+          </Link>
+          .
+        </p>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {rigs.map((rig) => (
+            <div key={rig.slug} className="flex flex-col gap-2">
+              <RigCard
+                rig={rig}
+                categories={categories}
+                starred={starredRigIds.includes(rig.id)}
+              />
+              {isOwner && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {rig.status !== "approved" && (
+                    <Badge
+                      variant={rig.status === "rejected" ? "destructive" : "outline"}
+                    >
+                      {rig.status === "rejected" ? "Rejected" : "Pending review"}
+                    </Badge>
+                  )}
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/rigs/${rig.slug}/edit`}>Edit</Link>
+                  </Button>
+                  <DeleteRigButton slug={rig.slug} name={rig.name} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
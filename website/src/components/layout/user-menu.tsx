@@ -33,6 +33,36 @@ export function UserMenu() {
       >
         Submit Rig
       </Link>
+      {session.user.login && (
+        <Link
+          href={`/users/${session.user.login}`}
+          className="text-sm text-foreground/60 transition-colors hover:text-foreground/80"
+        >
+          My rigs
+        </Link>
+      )}
+      {session.user.isAdmin && (
+        <>
+          <Link
+            href="/admin/review"
+            className="text-sm text-foreground/60 transition-colors hover:text-foreground/80"
+          >
+            Review
+          </Link>
+          <Link
+            href="/admin/categories"
+            className="text-sm text-foreground/60 transition-colors hover:text-foreground/80"
+          >
+            Categories
+          </Link>
+        </>
+      )}
+      <Link
+        href="/me/stars"
+        className="text-sm text-foreground/60 transition-colors hover:text-foreground/80"
+      >
+        Starred
+      </Link>
       <div className="flex items-center gap-2">
         {session.user.image && (
           <img
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { CategoryIcon } from "@/components/rigs/category-icon";
+import type { Category, RigCategory } from "@/lib/rigs/types";
+
+interface CategoryBadgeProps {
+  category: RigCategory;
+  /** Every category, from listCategories(); unknown slugs are shown as-is */
+  categories: Category[];
+  /** Link to the category's page */
+  link?: boolean;
+  className?: string;
+}
+
+export function CategoryBadge({ category, categories, link = false, className }: CategoryBadgeProps) {
+  const found = categories.find((c) => c.slug === category);
+  const content = (
+    <>
+      {found && <CategoryIcon icon={found.icon} />}
+      {found?.label ?? category}
+    </>
+  );
+
+  if (link && found) {
+    return (
+      <Badge variant="secondary" className={className} asChild>
+        <Link href={`/categories/${found.slug}`}>{content}</Link>
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" className={className}>
+      {content}
+    </Badge>
+  );
+}
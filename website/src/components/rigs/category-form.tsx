@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategoryIcon } from "@/components/rigs/category-icon";
+import type { Category, CategoryIconName } from "@/lib/rigs/types";
+import { categoryIconSchema } from "@/lib/rigs/validation";
+
+interface CategoryFormProps {
+  /** The category to edit; creates a new one when unset */
+  category?: Category;
+  /** Rigs in the category; categories in use can't be deleted */
+  rigCount?: number;
+}
+
+/**
+ * Create or edit a catalog category from /admin/categories.
+ */
+export function CategoryForm({ category, rigCount = 0 }: CategoryFormProps) {
+  const isEditing = category !== undefined;
+  const router = useRouter();
+  const [slug, setSlug] = useState(category?.slug ?? "");
+  const [label, setLabel] = useState(category?.label ?? "");
+  const [description, setDescription] = useState(category?.description ?? "");
+  const [icon, setIcon] = useState<CategoryIconName>(category?.icon ?? "box");
+  const [sortOrder, setSortOrder] = useState(String(category?.sortOrder ?? 0));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const idPrefix = category ? `category-${category.slug}` : "new-category";
+
+  async function send(method: "POST" | "PATCH" | "DELETE", body?: object): Promise<boolean> {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(isEditing ? `/api/categories/${category.slug}` : "/api/categories", {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+        setError(Object.values(fieldErrors)[0]?.[0] ?? data.error ?? "Something went wrong");
+        return false;
+      }
+
+      router.refresh();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const fields = { label, description, icon, sortOrder: Number(sortOrder) || 0 };
+    const saved = await send(isEditing ? "PATCH" : "POST", isEditing ? fields : { slug, ...fields });
+    if (saved && !isEditing) {
+      setSlug("");
+      setLabel("");
+      setDescription("");
+      setIcon("box");
+      setSortOrder("0");
+    }
+  }
+
+  function handleDelete() {
+    if (!window.confirm(`Delete the "${category?.label}" category? This can't be undone.`)) return;
+    send("DELETE");
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-label`}>Label</Label>
+          <Input
+            id={`${idPrefix}-label`}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Data Science"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-slug`}>Slug</Label>
+          <Input
+            id={`${idPrefix}-slug`}
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            placeholder="data-science"
+            disabled={isEditing}
+            required
+          />
+          <p className="text-xs text-muted-foreground">
+            {isEditing
+              ? "Slugs can't change, since rigs and config.json files refer to them."
+              : "Used in config.json and URLs. It can't be changed later."}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Shown on the category's page"
+          rows={2}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-icon`}>Icon</Label>
+          <Select value={icon} onValueChange={(value) => setIcon(value as CategoryIconName)}>
+            <SelectTrigger id={`${idPrefix}-icon`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {categoryIconSchema.options.map((name) => (
+                <SelectItem key={name} value={name}>
+                  <CategoryIcon icon={name} />
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-order`}>Order</Label>
+          <Input
+            id={`${idPrefix}-order`}
+            type="number"
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        {isEditing && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleDelete}
+            disabled={isSubmitting || rigCount > 0}
+            title={rigCount > 0 ? "Move this category's rigs first" : undefined}
+          >
+            Delete
+          </Button>
+        )}
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isEditing ? "Save" : "Create Category"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+import {
+  Bot,
+  Box,
+  Code,
+  Database,
+  Globe,
+  Server,
+  Shield,
+  Terminal,
+  User,
+  Workflow,
+  Wrench,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type { CategoryIconName } from "@/lib/rigs/types";
+
+// Typed by the icon names in validation.ts, so every name needs a component
+const categoryIcons: Record<CategoryIconName, LucideIcon> = {
+  workflow: Workflow,
+  code: Code,
+  user: User,
+  zap: Zap,
+  server: Server,
+  bot: Bot,
+  box: Box,
+  wrench: Wrench,
+  database: Database,
+  globe: Globe,
+  shield: Shield,
+  terminal: Terminal,
+};
+
+interface CategoryIconProps {
+  icon: CategoryIconName;
+  className?: string;
+}
+
+export function CategoryIcon({ icon, className }: CategoryIconProps) {
+  const Icon = categoryIcons[icon] ?? Box;
+  return <Icon className={className} aria-hidden />;
+}
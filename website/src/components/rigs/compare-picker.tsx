@@ -0,0 +1,69 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Matches LATEST_REF in lib/rigs/compare; Radix Select does not allow an
+// empty value
+const LATEST = "latest";
+
+interface ComparePickerProps {
+  slug: string;
+  branch: string;
+  versions: string[];
+  from: string;
+  to: string;
+  view: string;
+}
+
+/**
+ * Pick the two versions to compare. Commit SHAs given in the URL are kept as
+ * extra options so the picker still reflects them.
+ */
+export function ComparePicker({ slug, branch, versions, from, to, view }: ComparePickerProps) {
+  const router = useRouter();
+
+  function navigate(next: { from: string; to: string }) {
+    const params = new URLSearchParams({ from: next.from, to: next.to, view });
+    router.push(`/rigs/${slug}/compare?${params}`);
+  }
+
+  function options(selected: string) {
+    const refs = [LATEST, ...versions];
+    if (!refs.includes(selected)) refs.push(selected);
+
+    return refs.map((ref) => (
+      <SelectItem key={ref} value={ref}>
+        {ref === LATEST
+          ? `Latest (${branch})`
+          : versions.includes(ref)
+            ? `v${ref}`
+            : ref.slice(0, 7)}
+      </SelectItem>
+    ));
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select value={from} onValueChange={(value) => navigate({ from: value, to })}>
+        <SelectTrigger className="w-56" aria-label="Compare from">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{options(from)}</SelectContent>
+      </Select>
+      <span className="text-sm text-muted-foreground">to</span>
+      <Select value={to} onValueChange={(value) => navigate({ from, to: value })}>
+        <SelectTrigger className="w-56" aria-label="Compare to">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{options(to)}</SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface DeleteRigButtonProps {
+  slug: string;
+  name: string;
+}
+
+/**
+ * Lets a rig's owner delete it after confirming. Refreshes the current page
+ * so the rig drops out of any listing it was shown in.
+ */
+export function DeleteRigButton({ slug, name }: DeleteRigButtonProps) {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDelete() {
+    if (!window.confirm(`Delete ${name}? This can't be undone.`)) return;
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/rigs/${slug}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleDelete}
+        disabled={isDeleting}
+        className="text-red-500 hover:text-red-600"
+      >
+        {isDeleting ? <Loader2 className="animate-spin" /> : <Trash2 />}
+        Delete
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Badge } from "@/components/ui/badge";
+import { toHunks, toSplitRows, type DiffLine } from "@/lib/diff";
+import type { FileChangeStatus, FileComparison } from "@/lib/rigs/compare";
+
+export type DiffView = "unified" | "split";
+
+const statusLabels: Record<FileChangeStatus, string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified",
+  unchanged: "Unchanged",
+};
+
+const lineStyles: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-green-500/10",
+  remove: "bg-red-500/10",
+};
+
+const linePrefixes: Record<DiffLine["type"], string> = {
+  context: " ",
+  add: "+",
+  remove: "-",
+};
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className="w-px select-none px-2 text-right align-top text-muted-foreground/60">
+      {value}
+    </td>
+  );
+}
+
+function LineText({ line }: { line?: DiffLine }) {
+  if (!line) return <td className="bg-muted-foreground/5" />;
+
+  return (
+    <td className={`whitespace-pre pr-4 ${lineStyles[line.type]}`}>
+      <span className="select-none text-muted-foreground">{linePrefixes[line.type]}</span>
+      {line.text}
+    </td>
+  );
+}
+
+interface FileDiffProps {
+  comparison: FileComparison;
+  view: DiffView;
+}
+
+/**
+ * One file's changes between two commits, as unified or side-by-side hunks.
+ */
+export function FileDiff({ comparison, view }: FileDiffProps) {
+  const hunks = toHunks(comparison.lines);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h3 className="font-mono text-sm font-medium">{comparison.name}</h3>
+        {!comparison.error && (
+          <Badge
+            variant={comparison.status === "unchanged" ? "outline" : "secondary"}
+          >
+            {statusLabels[comparison.status]}
+          </Badge>
+        )}
+      </div>
+
+      {comparison.error ? (
+        <p className="text-sm text-muted-foreground">{comparison.error}</p>
+      ) : hunks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes.</p>
+      ) : (
+        <div className="max-h-[40rem] overflow-auto rounded-lg bg-muted text-xs">
+          <table className="w-full border-collapse font-mono">
+            {hunks.map((hunk) => (
+              <tbody key={`${hunk.oldStart}-${hunk.newStart}`}>
+                <tr>
+                  <td
+                    colSpan={view === "split" ? 4 : 3}
+                    className="bg-primary/5 px-2 py-1 text-muted-foreground"
+                  >
+                    @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                  </td>
+                </tr>
+                {view === "split"
+                  ? toSplitRows(hunk.lines).map((row, i) => (
+                      <tr key={i}>
+                        <LineNumber value={row.left?.oldNumber} />
+                        <LineText line={row.left} />
+                        <LineNumber value={row.right?.newNumber} />
+                        <LineText line={row.right} />
+                      </tr>
+                    ))
+                  : hunk.lines.map((line, i) => (
+                      <tr key={i}>
+                        <LineNumber value={line.oldNumber} />
+                        <LineNumber value={line.newNumber} />
+                        <LineText line={line} />
+                      </tr>
+                    ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
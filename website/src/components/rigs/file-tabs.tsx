@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useSyncExternalStore, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+interface FileTab {
+  /** Anchor id of the file; line anchors are `${id}-L<n>` */
+  id: string;
+  name: string;
+}
+
+interface FileTabsProps {
+  tabs: FileTab[];
+  /** Server-rendered file contents, in the same order as `tabs` */
+  panels: ReactNode[];
+}
+
+function subscribeToHash(onChange: () => void) {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+}
+
+/**
+ * Tabs for the inline file viewer. The active tab lives in the URL hash, so a
+ * link to a file or to a single line opens the right tab.
+ */
+export function FileTabs({ tabs, panels }: FileTabsProps) {
+  const hash = useSyncExternalStore(
+    subscribeToHash,
+    () => window.location.hash,
+    () => ""
+  );
+  const activeId =
+    tabs.find((tab) => hash === `#${tab.id}` || hash.startsWith(`#${tab.id}-L`))?.id ??
+    tabs[0]?.id;
+
+  // The line may have been in a hidden tab when the browser tried to scroll
+  // to it, so scroll once the tab is showing
+  useEffect(() => {
+    if (/-L\d+$/.test(hash)) {
+      document.getElementById(hash.slice(1))?.scrollIntoView({ block: "center" });
+    }
+  }, [hash]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm" role="tablist">
+        {tabs.map((tab) => (
+          <a
+            key={tab.id}
+            href={`#${tab.id}`}
+            role="tab"
+            aria-selected={tab.id === activeId}
+            className={cn(
+              "font-mono transition-colors hover:text-foreground/80",
+              tab.id === activeId ? "text-foreground font-medium" : "text-foreground/60"
+            )}
+          >
+            {tab.name}
+          </a>
+        ))}
+      </div>
+      {panels.map((panel, i) => (
+        <div key={tabs[i].id} role="tabpanel" hidden={tabs[i].id !== activeId}>
+          {panel}
+        </div>
+      ))}
+    </div>
+  );
+}
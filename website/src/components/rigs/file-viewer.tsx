@@ -0,0 +1,96 @@
+import { FileTabs } from "@/components/rigs/file-tabs";
+import { highlightLines, languageForFile, type TokenKind } from "@/lib/highlight";
+import { fetchRigFile, fileAnchorId } from "@/lib/rigs/files";
+import { getFileUrl, type RigRepository } from "@/lib/rigs/types";
+
+const tokenStyles: Record<TokenKind, string> = {
+  comment: "text-muted-foreground italic",
+  string: "text-green-700 dark:text-green-400",
+  keyword: "text-purple-700 dark:text-purple-400",
+  function: "text-blue-700 dark:text-blue-400",
+  variable: "text-orange-700 dark:text-orange-400",
+  number: "text-amber-700 dark:text-amber-400",
+  key: "text-sky-700 dark:text-sky-400",
+  heading: "font-semibold",
+};
+
+interface RigFileViewerProps {
+  repository: RigRepository;
+  /** Branch or commit SHA to read the files at */
+  gitRef: string;
+  fileNames: string[];
+}
+
+/**
+ * Server-rendered, syntax-highlighted view of a rig's files with a tab per
+ * file and an anchor per line. Files the rig doesn't have are skipped.
+ */
+export async function RigFileViewer({ repository, gitRef, fileNames }: RigFileViewerProps) {
+  const files = await Promise.all(
+    fileNames.map(async (name) => ({
+      name,
+      id: fileAnchorId(name),
+      result: await fetchRigFile(repository, name, gitRef),
+    }))
+  );
+  const shown = files.filter((file) => file.result.content !== null);
+
+  if (shown.length === 0) {
+    return <p className="text-sm text-muted-foreground">No files to show.</p>;
+  }
+
+  return (
+    <FileTabs
+      tabs={shown.map(({ id, name }) => ({ id, name }))}
+      panels={shown.map(({ id, name, result }) => (
+        <div key={id} className="space-y-2">
+          <div className="flex justify-end">
+            <a
+              href={getFileUrl(repository, name, gitRef)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-primary hover:underline"
+            >
+              Open on GitHub
+            </a>
+          </div>
+          {result.error !== undefined ? (
+            <p className="text-sm text-muted-foreground">{result.error}</p>
+          ) : (
+            <div className="max-h-[32rem] overflow-auto rounded-lg bg-muted text-xs">
+              <table className="w-full border-collapse font-mono">
+                <tbody>
+                  {highlightLines(result.content ?? "", languageForFile(name)).map(
+                    (tokens, i) => {
+                      const lineId = `${id}-L${i + 1}`;
+                      return (
+                        <tr key={lineId} id={lineId} className="scroll-mt-24 target:bg-amber-500/15">
+                          <td className="w-px select-none px-3 text-right align-top text-muted-foreground/60">
+                            <a href={`#${lineId}`} className="hover:text-foreground">
+                              {i + 1}
+                            </a>
+                          </td>
+                          <td className="whitespace-pre pr-4">
+                            {tokens.map((token, j) =>
+                              token.kind ? (
+                                <span key={j} className={tokenStyles[token.kind]}>
+                                  {token.text}
+                                </span>
+                              ) : (
+                                token.text
+                              )
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    }
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    />
+  );
+}
@@ -0,0 +1,35 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { RigHealthStatus } from "@/lib/rigs/types";
+
+const healthStyles: Record<RigHealthStatus, string> = {
+  healthy: "border-transparent bg-emerald-500/15 text-emerald-700 dark:text-emerald-400",
+  degraded: "border-transparent bg-amber-500/15 text-amber-700 dark:text-amber-400",
+  broken: "border-transparent bg-red-500/15 text-red-700 dark:text-red-400",
+};
+
+const healthLabels: Record<RigHealthStatus, string> = {
+  healthy: "Healthy",
+  degraded: "Degraded",
+  broken: "Broken",
+};
+
+interface HealthBadgeProps {
+  status: RigHealthStatus;
+  checkedAt: Date | null;
+  className?: string;
+}
+
+/**
+ * Result of the rig's latest scheduled health check.
+ */
+export function HealthBadge({ status, checkedAt, className }: HealthBadgeProps) {
+  return (
+    <Badge
+      className={cn(healthStyles[status], className)}
+      title={checkedAt ? `Last checked ${checkedAt.toLocaleString()}` : undefined}
+    >
+      {healthLabels[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { CategoryBadge } from "@/components/rigs/category-badge";
+import { getProvider, parseRepoInput } from "@/lib/rigs/providers";
+import { fetchRepository, toRepoQuery } from "@/lib/rigs/repository-lookup";
+import type { Category, RigImportCandidate } from "@/lib/rigs/types";
+
+interface ImportRigsFormProps {
+  /** Every category, from listCategories() */
+  categories: Category[];
+}
+
+export function ImportRigsForm({ categories }: ImportRigsFormProps) {
+  const router = useRouter();
+  const [repoInput, setRepoInput] = useState("");
+  const [repoBranch, setRepoBranch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Like the submit form, lookups remember which repo (and branch) they were
+  // for, so results for a previous input are ignored
+  const parsedRepo = useMemo(() => parseRepoInput(repoInput), [repoInput]);
+  const repoKey = parsedRepo ? toRepoQuery(parsedRepo) : null;
+  const canScanRepo = parsedRepo !== null && parsedRepo.provider !== "git";
+  const scanKey = repoKey && repoBranch ? `${repoKey}@${repoBranch}` : null;
+  const [branchLookup, setBranchLookup] = useState<{
+    key: string;
+    branches: string[];
+    error?: string;
+  } | null>(null);
+  const [scan, setScan] = useState<{
+    key: string;
+    rigs: RigImportCandidate[];
+    truncated: boolean;
+  } | null>(null);
+
+  const branches = branchLookup?.key === repoKey ? branchLookup.branches : [];
+  const candidates = scan?.key === scanKey ? scan.rigs : null;
+  const isLoadingBranches = canScanRepo && repoKey !== null && branchLookup?.key !== repoKey;
+  const repoError = !parsedRepo
+    ? repoInput.trim()
+      ? "Enter a valid repository (owner/repo or repository URL)"
+      : null
+    : !canScanRepo
+      ? `${getProvider(parsedRepo).label} repositories can't be scanned for rigs. Submit each rig instead.`
+      : branchLookup?.key === repoKey
+        ? branchLookup.error ?? null
+        : null;
+
+  function handleRepoInputChange(value: string) {
+    setRepoInput(value);
+    const next = parseRepoInput(value);
+    if ((next ? toRepoQuery(next) : null) !== repoKey) {
+      setRepoBranch("");
+    }
+  }
+
+  // Fetch branches when the repo changes
+  useEffect(() => {
+    if (!repoKey || !canScanRepo) return;
+
+    let cancelled = false;
+    fetchRepository<{ branches: string[] }>("branches", repoKey)
+      .then(({ branches: branchNames }) => {
+        if (cancelled) return;
+        setBranchLookup({ key: repoKey, branches: branchNames });
+        const defaultBranch = branchNames.includes("main")
+          ? "main"
+          : branchNames.includes("master")
+            ? "master"
+            : branchNames[0] ?? "";
+        setRepoBranch((current) => current || defaultBranch);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setBranchLookup({ key: repoKey, branches: [], error: err.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repoKey, canScanRepo]);
+
+  function repositoryBody() {
+    return {
+      provider: parsedRepo!.provider,
+      host: parsedRepo!.host,
+      owner: parsedRepo!.owner,
+      name: parsedRepo!.name,
+      branch: repoBranch,
+    };
+  }
+
+  async function handleScan() {
+    if (!parsedRepo || !scanKey) return;
+
+    setIsScanning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/rigs/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ repository: repositoryBody() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        return;
+      }
+
+      const found = data.rigs as RigImportCandidate[];
+      setScan({ key: scanKey, rigs: found, truncated: data.truncated });
+      // Start with every rig that can be imported
+      setSelected(new Set(found.filter((rig) => !rig.error).map((rig) => rig.path)));
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsScanning(false);
+    }
+  }
+
+  function toggle(path: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  }
+
+  async function handleImport(e: React.FormEvent) {
+    e.preventDefault();
+    if (!parsedRepo || selected.size === 0) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/rigs/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ repository: repositoryBody(), paths: [...selected] }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        setIsImporting(false);
+        return;
+      }
+
+      // Show the submitter's rigs, where the new ones are listed
+      router.push(`/users/${data.rigs[0].submittedBy}`);
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+      setIsImporting(false);
+    }
+  }
+
+  const importable = candidates?.filter((rig) => !rig.error) ?? [];
+
+  return (
+    <form onSubmit={handleImport} className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Repository</CardTitle>
+          <CardDescription>
+            Every folder with a config.json and an install.ps1 or install.sh
+            script is found and checked before anything is created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[2fr_1fr]">
+            <div className="space-y-2">
+              <Label htmlFor="repoInput">Repository</Label>
+              <Input
+                id="repoInput"
+                value={repoInput}
+                onChange={(e) => handleRepoInputChange(e.target.value)}
+                placeholder="owner/repo or https://gitlab.com/group/repo"
+                required
+              />
+              {repoError && (
+                <p className="text-xs text-red-500">{repoError}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="repoBranch">Branch</Label>
+              {isLoadingBranches ? (
+                <div className="flex h-10 items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading branches...
+                </div>
+              ) : branches.length > 0 ? (
+                <Select value={repoBranch} onValueChange={setRepoBranch} required>
+                  <SelectTrigger id="repoBranch">
+                    <SelectValue placeholder="Select a branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((b) => (
+                      <SelectItem key={b} value={b}>
+                        {b}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="repoBranch"
+                  value={repoBranch}
+                  onChange={(e) => setRepoBranch(e.target.value)}
+                  placeholder="main"
+                  disabled={!parsedRepo}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleScan}
+              disabled={!canScanRepo || !repoBranch || isScanning}
+            >
+              {isScanning ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Scanning...
+                </>
+              ) : (
+                "Scan for Rigs"
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {candidates && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rigs Found</CardTitle>
+            <CardDescription>
+              {candidates.length === 0
+                ? "No folders with a config.json and an install script were found on this branch."
+                : `${importable.length} of ${candidates.length} can be imported. Choose which to create; they're created together or not at all.`}
+              {scan?.truncated &&
+                " The repository is too large to scan completely, so some rigs may be missing."}
+            </CardDescription>
+          </CardHeader>
+          {candidates.length > 0 && (
+            <CardContent>
+              <ul className="divide-y rounded-lg border">
+                {candidates.map((rig) => (
+                  <li key={rig.path} className="flex items-start gap-3 p-4">
+                    <input
+                      type="checkbox"
+                      id={`rig-${rig.path}`}
+                      className="mt-1 h-4 w-4"
+                      checked={selected.has(rig.path)}
+                      onChange={() => toggle(rig.path)}
+                      disabled={rig.error !== null}
+                    />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <label htmlFor={`rig-${rig.path}`} className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{rig.name ?? rig.path}</span>
+                        {rig.category && <CategoryBadge category={rig.category} categories={categories} />}
+                        <code className="text-xs text-muted-foreground">{rig.path || "(root)"}</code>
+                      </label>
+                      {rig.tagline && (
+                        <p className="text-sm text-muted-foreground">{rig.tagline}</p>
+                      )}
+                      {rig.error ? (
+                        <p className="text-xs text-red-500">
+                          {rig.error}
+                          {rig.issues.length > 0 &&
+                            `: ${rig.issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ")}`}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-green-600">Ready to import as /rigs/{rig.slug}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      <div className="flex justify-end gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.back()}
+          disabled={isImporting}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!candidates || selected.size === 0 || isImporting}>
+          {isImporting
+            ? "Importing..."
+            : `Import ${selected.size} Rig${selected.size === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
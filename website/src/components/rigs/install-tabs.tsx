@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface InstallCommandSet {
+  powershell: string | null;
+  bash: string | null;
+}
+
+interface InstallTabsProps {
+  quick: InstallCommandSet;
+  /** Hash-checked commands, or null if the rig has no pinned commit yet */
+  verified: (InstallCommandSet & { commitSha: string }) | null;
+}
+
+type InstallTab = "quick" | "verified";
+
+function CommandBlock({ label, command }: { label: string; command: string | null }) {
+  if (!command) return null;
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-sm">
+        <code>{command}</code>
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Install commands for a rig: the one-liner that runs whatever is on the
+ * branch, and a verified variant that checks the script's pinned SHA-256
+ * before running it.
+ */
+export function InstallTabs({ quick, verified }: InstallTabsProps) {
+  const [tab, setTab] = useState<InstallTab>("quick");
+  const commands = tab === "verified" && verified ? verified : quick;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-3 text-sm" role="tablist">
+        {(["quick", "verified"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={tab === value}
+            onClick={() => setTab(value)}
+            className={cn(
+              "inline-flex items-center gap-1 transition-colors hover:text-foreground/80",
+              tab === value ? "text-foreground font-medium" : "text-foreground/60"
+            )}
+          >
+            {value === "verified" && <ShieldCheck className="h-4 w-4" />}
+            {value === "quick" ? "Quick install" : "Verified install"}
+          </button>
+        ))}
+      </div>
+
+      {tab === "verified" && (
+        <p className="text-xs text-muted-foreground">
+          {verified
+            ? `Downloads the script from commit ${verified.commitSha.slice(0, 7)}, checks its SHA-256 and only runs it if it matches, so later pushes can't change what you run.`
+            : "This rig hasn't been pinned to a commit yet. The owner can pin it by syncing the rig."}
+        </p>
+      )}
+
+      {(tab === "quick" || verified) && (
+        <>
+          <CommandBlock label="PowerShell (Windows)" command={commands.powershell} />
+          <CommandBlock label="Bash (macOS / Linux)" command={commands.bash} />
+        </>
+      )}
+    </div>
+  );
+}
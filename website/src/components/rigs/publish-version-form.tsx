@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface PublishVersionFormProps {
+  slug: string;
+}
+
+/**
+ * Lets a rig's owner publish the current commit of its branch as a new
+ * version. The version number is read from config.json on the server.
+ */
+export function PublishVersionForm({ slug }: PublishVersionFormProps) {
+  const router = useRouter();
+  const [changelog, setChangelog] = useState("");
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/rigs/${slug}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changelog }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        return;
+      }
+
+      setChangelog("");
+      router.push(`/rigs/${slug}?version=${encodeURIComponent(data.version)}`);
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsPublishing(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="changelog">Changelog</Label>
+        <Textarea
+          id="changelog"
+          value={changelog}
+          onChange={(e) => setChangelog(e.target.value)}
+          placeholder="What changed in this version?"
+          rows={3}
+        />
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <Button type="submit" size="sm" disabled={isPublishing}>
+        {isPublishing ? "Publishing..." : "Publish version"}
+      </Button>
+    </form>
+  );
+}
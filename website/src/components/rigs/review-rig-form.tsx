@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { RigStatus } from "@/lib/rigs/types";
+
+interface ReviewRigFormProps {
+  slug: string;
+  status: RigStatus;
+}
+
+/**
+ * Approve or reject a rig from the admin review queue. Rejecting asks for a
+ * reason, which is shown to the submitter on the rig's page.
+ */
+export function ReviewRigForm({ slug, status }: ReviewRigFormProps) {
+  const router = useRouter();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submitReview(decision: { status: "approved" } | { status: "rejected"; reason: string }) {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/rigs/${slug}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(
+          data.details?.fieldErrors?.reason?.[0] ?? data.error ?? "Something went wrong"
+        );
+        return;
+      }
+
+      setIsRejecting(false);
+      setReason("");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  function handleReject(e: React.FormEvent) {
+    e.preventDefault();
+    submitReview({ status: "rejected", reason });
+  }
+
+  if (isRejecting) {
+    return (
+      <form onSubmit={handleReject} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor={`reason-${slug}`}>Reason for rejecting</Label>
+          <Textarea
+            id={`reason-${slug}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What does the submitter need to change?"
+            rows={3}
+            required
+          />
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <div className="flex gap-2">
+          <Button type="submit" variant="destructive" size="sm" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="animate-spin" />}
+            Reject
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsRejecting(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {status !== "approved" && (
+          <Button
+            size="sm"
+            onClick={() => submitReview({ status: "approved" })}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? <Loader2 className="animate-spin" /> : <Check />}
+            Approve
+          </Button>
+        )}
+        {status !== "rejected" && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsRejecting(true)}
+            disabled={isSubmitting}
+          >
+            <X />
+            Reject
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
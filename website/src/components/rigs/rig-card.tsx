@@ -7,30 +7,44 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import type { Rig } from "@/lib/rigs/types";
-
-const categoryLabels: Record<string, string> = {
-  "ci-cd": "CI/CD",
-  coding: "Coding",
-  personal: "Personal",
-  automation: "Automation",
-};
+import { CategoryBadge } from "@/components/rigs/category-badge";
+import { HealthBadge } from "@/components/rigs/health-badge";
+import { StarButton } from "@/components/rigs/star-button";
+import { getInstallSuccessRate, type Category, type Rig } from "@/lib/rigs/types";
 
 interface RigCardProps {
   rig: Rig;
+  /** Every category, for the rig's category badge */
+  categories: Category[];
+  /** Whether the signed-in user has starred this rig */
+  starred?: boolean;
 }
 
-export function RigCard({ rig }: RigCardProps) {
+export function RigCard({ rig, categories, starred = false }: RigCardProps) {
+  const successRate = getInstallSuccessRate(rig);
+
   return (
-    <Link href={`/rigs/${rig.slug}`} className="group block">
-      <Card className="h-full transition-all duration-200 hover:shadow-lg hover:border-foreground/20 group-hover:-translate-y-0.5">
+    <div className="group h-full">
+      <Card className="relative h-full transition-all duration-200 hover:shadow-lg hover:border-foreground/20 group-hover:-translate-y-0.5">
         <CardHeader>
           <div className="flex items-start justify-between gap-2">
-            <CardTitle className="text-xl">{rig.name}</CardTitle>
-            <Badge variant="secondary">
-              {categoryLabels[rig.category] ?? rig.category}
-            </Badge>
+            <CardTitle className="text-xl">
+              {/* Stretched over the whole card; the byline and star button sit above it */}
+              <Link href={`/rigs/${rig.slug}`} className="after:absolute after:inset-0">
+                {rig.name}
+              </Link>
+            </CardTitle>
+            <div className="flex shrink-0 items-center gap-1.5">
+              {rig.healthStatus && (
+                <HealthBadge status={rig.healthStatus} checkedAt={rig.healthCheckedAt} />
+              )}
+              <CategoryBadge
+                category={rig.category}
+                categories={categories}
+                link
+                className="relative z-10"
+              />
+            </div>
           </div>
           <CardDescription className="text-base">
             {rig.tagline}
@@ -49,9 +63,31 @@ export function RigCard({ rig }: RigCardProps) {
               className="h-5 w-5 rounded-full"
             />
           )}
-          <span>by {rig.submittedBy}</span>
+          <span>
+            by{" "}
+            <Link
+              href={`/users/${rig.submittedBy}`}
+              className="relative z-10 hover:text-foreground hover:underline"
+            >
+              {rig.submittedBy}
+            </Link>
+          </span>
+          <div className="relative z-10 ml-auto flex items-center gap-2">
+            {rig.installCount > 0 && (
+              <span>
+                {rig.installCount} install{rig.installCount === 1 ? "" : "s"}
+                {successRate !== null && ` · ${Math.round(successRate * 100)}% success`}
+              </span>
+            )}
+            <StarButton
+              slug={rig.slug}
+              starred={starred}
+              starCount={rig.starCount}
+              compact
+            />
+          </div>
         </CardFooter>
       </Card>
-    </Link>
+    </div>
   );
 }
@@ -0,0 +1,201 @@
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { RigFacets, RigFacetValue } from "@/lib/rigs/data";
+import type { Category } from "@/lib/rigs/types";
+import { defaultRigSort, type RigSearchFilters, type RigSort } from "@/lib/rigs/validation";
+import { buildRigSearchHref, hasActiveFilters } from "@/lib/rigs/search";
+
+const difficultyLabels: Record<string, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+const statusLabels: Record<string, string> = {
+  ready: "Ready",
+  beta: "Beta",
+  experimental: "Experimental",
+};
+
+const sortOptions: { value: RigSort; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "newest", label: "Newest" },
+  { value: "updated", label: "Recently updated" },
+  { value: "name", label: "A-Z" },
+  { value: "installs", label: "Most installed" },
+];
+
+interface RigFiltersProps {
+  filters: RigSearchFilters;
+  facets: RigFacets;
+  categories: Category[];
+}
+
+interface FacetGroupProps {
+  title: string;
+  values: RigFacetValue[];
+  labels?: Record<string, string>;
+  isActive: (value: string) => boolean;
+  hrefFor: (value: string) => string;
+}
+
+function FacetGroup({ title, values, labels, isActive, hrefFor }: FacetGroupProps) {
+  if (values.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        {title}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {values.map(({ value, count }) => (
+          <Link
+            key={value}
+            href={hrefFor(value)}
+            scroll={false}
+            className={cn(
+              "inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium transition-colors",
+              isActive(value)
+                ? "border-transparent bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-accent"
+            )}
+          >
+            {labels?.[value] ?? value}
+            <span className="opacity-60">{count}</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search box and facet filters for the rigs catalog. All state lives in the
+ * URL, so every filtered view is a shareable link.
+ */
+export function RigFilters({ filters, facets, categories }: RigFiltersProps) {
+  return (
+    <div className="space-y-4">
+      <form action="/rigs" method="get" className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={filters.q ?? ""}
+            placeholder="Search rigs..."
+            className="pl-9"
+            aria-label="Search rigs"
+          />
+        </div>
+        {/* Keep the active facets when submitting a new search */}
+        {filters.category && (
+          <input type="hidden" name="category" value={filters.category} />
+        )}
+        {filters.tag.map((tag) => (
+          <input key={tag} type="hidden" name="tag" value={tag} />
+        ))}
+        {filters.difficulty && (
+          <input type="hidden" name="difficulty" value={filters.difficulty} />
+        )}
+        {filters.status && (
+          <input type="hidden" name="status" value={filters.status} />
+        )}
+        {filters.sort !== defaultRigSort(filters) && (
+          <input type="hidden" name="sort" value={filters.sort} />
+        )}
+        <Button type="submit">Search</Button>
+      </form>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <FacetGroup
+          title="Category"
+          values={facets.categories}
+          labels={Object.fromEntries(categories.map((category) => [category.slug, category.label]))}
+          isActive={(value) => filters.category === value}
+          hrefFor={(value) =>
+            buildRigSearchHref({
+              ...filters,
+              category: filters.category === value ? undefined : (value as RigSearchFilters["category"]),
+            })
+          }
+        />
+        <FacetGroup
+          title="Difficulty"
+          values={facets.difficulties}
+          labels={difficultyLabels}
+          isActive={(value) => filters.difficulty === value}
+          hrefFor={(value) =>
+            buildRigSearchHref({
+              ...filters,
+              difficulty: filters.difficulty === value ? undefined : (value as RigSearchFilters["difficulty"]),
+            })
+          }
+        />
+        <FacetGroup
+          title="Status"
+          values={facets.statuses}
+          labels={statusLabels}
+          isActive={(value) => filters.status === value}
+          hrefFor={(value) =>
+            buildRigSearchHref({
+              ...filters,
+              status: filters.status === value ? undefined : (value as RigSearchFilters["status"]),
+            })
+          }
+        />
+        <FacetGroup
+          title="Tags"
+          values={facets.tags}
+          isActive={(value) => filters.tag.includes(value)}
+          hrefFor={(value) =>
+            buildRigSearchHref({
+              ...filters,
+              tag: filters.tag.includes(value)
+                ? filters.tag.filter((t) => t !== value)
+                : [...filters.tag, value],
+            })
+          }
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">Sort by</span>
+          {sortOptions
+            // Relevance only applies to text searches
+            .filter((option) => option.value !== "relevance" || filters.q)
+            .map((option) => (
+              <Link
+                key={option.value}
+                href={buildRigSearchHref({ ...filters, sort: option.value })}
+                scroll={false}
+                className={cn(
+                  "transition-colors hover:text-foreground/80",
+                  filters.sort === option.value
+                    ? "text-foreground font-medium"
+                    : "text-foreground/60"
+                )}
+              >
+                {option.label}
+              </Link>
+            ))}
+        </div>
+        {hasActiveFilters(filters) && (
+          <Link
+            href={buildRigSearchHref({
+              tag: [],
+              sort: filters.sort === "relevance" ? "newest" : filters.sort,
+            })}
+            className="text-sm text-primary hover:underline"
+          >
+            Clear all filters
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RigCard } from "@/components/rigs/rig-card";
+import type { Category, Rig } from "@/lib/rigs/types";
+
+interface RigGridProps {
+  initialRigs: Rig[];
+  initialCursor: string | null;
+  total: number;
+  /** Current search query string, forwarded to GET /api/rigs for later pages */
+  query: string;
+  /** IDs of rigs the signed-in user has starred */
+  starredRigIds: number[];
+  categories: Category[];
+}
+
+export function RigGrid({
+  initialRigs,
+  initialCursor,
+  total,
+  query,
+  starredRigIds,
+  categories,
+}: RigGridProps) {
+  const [rigs, setRigs] = useState(initialRigs);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadMore() {
+    if (!cursor) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams(query);
+    params.set("cursor", cursor);
+
+    try {
+      const res = await fetch(`/api/rigs?${params}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load more rigs");
+        return;
+      }
+
+      const nextRigs: Rig[] = data.rigs.map((rig: Rig) => ({
+        ...rig,
+        createdAt: new Date(rig.createdAt),
+        updatedAt: new Date(rig.updatedAt),
+      }));
+      setRigs((current) => [...current, ...nextRigs]);
+      setCursor(data.nextCursor);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {rigs.map((rig) => (
+          <RigCard
+            key={rig.slug}
+            rig={rig}
+            categories={categories}
+            starred={starredRigIds.includes(rig.id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <p className="text-sm text-muted-foreground">
+          Showing {rigs.length} of {total} rigs
+        </p>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {cursor && (
+          <Button variant="outline" onClick={loadMore} disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isLoading ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
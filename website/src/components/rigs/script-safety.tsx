@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ScriptSafetyReport, ScriptSeverity } from "@/lib/rigs/types";
+
+const severityStyles: Record<ScriptSeverity, string> = {
+  low: "border-transparent bg-muted text-muted-foreground",
+  medium: "border-transparent bg-amber-500/15 text-amber-700 dark:text-amber-400",
+  high: "border-transparent bg-red-500/15 text-red-700 dark:text-red-400",
+};
+
+interface ScriptSafetyProps {
+  report: ScriptSafetyReport;
+}
+
+/**
+ * Findings from the static safety scan of a rig's install scripts.
+ */
+export function ScriptSafety({ report }: ScriptSafetyProps) {
+  if (report.findings.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No risky patterns found in {report.scannedFiles.join(" or ")}.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {report.findings.map((finding, i) => (
+        <li key={i} className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge className={cn("capitalize", severityStyles[finding.severity])}>
+              {finding.severity}
+            </Badge>
+            <span>{finding.message}</span>
+            <span className="font-mono text-xs text-muted-foreground">
+              {finding.file}:{finding.line}
+            </span>
+          </div>
+          <pre className="overflow-x-auto rounded-lg bg-muted p-2 text-xs">
+            <code>{finding.excerpt}</code>
+          </pre>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { signIn, useSession } from "next-auth/react";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface StarButtonProps {
+  slug: string;
+  starred: boolean;
+  starCount: number;
+  /** Icon-and-count only, for use inside a RigCard */
+  compact?: boolean;
+}
+
+/**
+ * Star or unstar a rig. Updates optimistically and rolls back if the request
+ * fails; signed-out users are sent to sign in instead.
+ */
+export function StarButton({ slug, starred: initialStarred, starCount: initialCount, compact }: StarButtonProps) {
+  const { status } = useSession();
+  const [starred, setStarred] = useState(initialStarred);
+  const [starCount, setStarCount] = useState(initialCount);
+  const [isPending, setIsPending] = useState(false);
+
+  async function toggleStar() {
+    if (status !== "authenticated") {
+      signIn("github");
+      return;
+    }
+
+    const previous = { starred, starCount };
+    setStarred(!starred);
+    setStarCount(starCount + (starred ? -1 : 1));
+    setIsPending(true);
+
+    try {
+      const res = await fetch(`/api/rigs/${slug}/star`, {
+        method: starred ? "DELETE" : "POST",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setStarred(data.starred);
+      setStarCount(data.starCount);
+    } catch {
+      setStarred(previous.starred);
+      setStarCount(previous.starCount);
+    } finally {
+      setIsPending(false);
+    }
+  }
+
+  const label = starred ? "Unstar rig" : "Star rig";
+
+  return (
+    <Button
+      type="button"
+      variant={compact ? "ghost" : "outline"}
+      size="sm"
+      onClick={toggleStar}
+      disabled={isPending}
+      aria-pressed={starred}
+      aria-label={compact ? label : undefined}
+      title={label}
+      className={cn(compact && "h-6 gap-1 px-1.5 text-xs text-muted-foreground")}
+    >
+      <Star className={cn(starred && "fill-yellow-400 text-yellow-400")} />
+      {!compact && (starred ? "Starred" : "Star")}
+      <span className={cn(!compact && "text-muted-foreground")}>{starCount}</span>
+    </Button>
+  );
+}
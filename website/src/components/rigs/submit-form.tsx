@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -21,188 +21,273 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
+import { CategoryIcon } from "@/components/rigs/category-icon";
+import { loadRigConfig, type Category, type Rig, type RigConfigResult } from "@/lib/rigs/types";
+import {
+  formatRepoInput,
+  getProvider,
+  parseRepoInput,
+  type RepositoryEntry,
+} from "@/lib/rigs/providers";
+import type { RigConfigIssue } from "@/lib/rigs/validation";
+import {
+  fetchRepository,
+  fromRepoQuery,
+  RepositoryLookupError,
+  toRepoQuery,
+} from "@/lib/rigs/repository-lookup";
+
+interface ConfigFieldHintProps {
+  value: string;
+  configValue: string | undefined;
+  onUseConfig: (value: string) => void;
+}
 
-const categories = [
-  { value: "ci-cd", label: "CI/CD" },
-  { value: "coding", label: "Coding" },
-  { value: "personal", label: "Personal" },
-  { value: "automation", label: "Automation" },
-];
+/**
+ * Shows whether a field matches the rig's config.json, and offers to use the
+ * config value when they conflict.
+ */
+function ConfigFieldHint({ value, configValue, onUseConfig }: ConfigFieldHintProps) {
+  if (configValue === undefined || !value) return null;
 
-interface GitHubBranch {
-  name: string;
-}
+  if (value === configValue) {
+    return <p className="text-xs text-muted-foreground">From config.json</p>;
+  }
 
-interface GitHubContent {
-  name: string;
-  type: string;
-  path: string;
+  return (
+    <p className="text-xs text-amber-600 dark:text-amber-400">
+      Differs from config.json ({configValue.length > 60 ? `${configValue.slice(0, 60)}...` : configValue}).{" "}
+      <button
+        type="button"
+        onClick={() => onUseConfig(configValue)}
+        className="underline hover:no-underline"
+      >
+        Use config value
+      </button>
+    </p>
+  );
 }
 
-function parseRepoInput(input: string): { owner: string; name: string } | null {
-  const trimmed = input.trim();
-  
-  // Handle full GitHub URLs: https://github.com/owner/repo or https://github.com/owner/repo.git
-  const urlMatch = trimmed.match(/github\.com\/([^/]+)\/([^/.]+)/);
-  if (urlMatch) {
-    return { owner: urlMatch[1], name: urlMatch[2] };
+/**
+ * Recursively find folders containing an install script. Throws if the host
+ * can't be reached or the rate limit is hit.
+ */
+async function findRigPaths(repoQuery: string, branch: string, currentPath = ""): Promise<string[]> {
+  let contents: RepositoryEntry[];
+  try {
+    const query = new URLSearchParams(repoQuery);
+    query.set("ref", branch);
+    query.set("path", currentPath);
+    ({ contents } = await fetchRepository<{ contents: RepositoryEntry[] }>("contents", query.toString()));
+  } catch (error) {
+    // A missing folder just has no rigs; rate limits and outages are reported
+    if (error instanceof RepositoryLookupError && error.status === 404) return [];
+    throw error;
+  }
+
+  const rigPaths: string[] = [];
+  const fileNames = contents.map((c) => c.name);
+
+  // Check if this directory has at least one install script
+  if (fileNames.includes("install.ps1") || fileNames.includes("install.sh")) {
+    rigPaths.push(currentPath || ".");
   }
-  
-  // Handle owner/repo format
-  const slashMatch = trimmed.match(/^([^/]+)\/([^/]+)$/);
-  if (slashMatch) {
-    return { owner: slashMatch[1], name: slashMatch[2] };
+
+  // Recursively check subdirectories (limit depth to avoid too many API calls)
+  const depth = currentPath.split("/").filter(Boolean).length;
+  if (depth < 3) {
+    const dirs = contents.filter((c) => c.type === "dir" && !c.name.startsWith(".") && c.name !== "node_modules");
+    const subResults = await Promise.all(
+      dirs.slice(0, 10).map((d) => findRigPaths(repoQuery, branch, d.path))
+    );
+    rigPaths.push(...subResults.flat());
   }
-  
-  return null;
+
+  return rigPaths;
 }
 
-export function SubmitRigForm() {
+/** Existing rig values, when the form is used to edit a rig */
+type EditableRig = Pick<Rig, "slug" | "name" | "tagline" | "description" | "category" | "repository">;
+
+interface SubmitRigFormProps {
+  /** Every category, from listCategories() */
+  categories: Category[];
+  rig?: EditableRig;
+}
+
+export function SubmitRigForm({ categories, rig }: SubmitRigFormProps) {
+  const isEditing = rig !== undefined;
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [configIssues, setConfigIssues] = useState<RigConfigIssue[]>([]);
 
   // Form state
-  const [name, setName] = useState("");
-  const [tagline, setTagline] = useState("");
-  const [description, setDescription] = useState("");
-  const [category, setCategory] = useState("");
-  const [repoInput, setRepoInput] = useState("");
-  const [repoBranch, setRepoBranch] = useState("");
-  const [repoPath, setRepoPath] = useState("");
-
-  // Dynamic data from GitHub
-  const [parsedRepo, setParsedRepo] = useState<{ owner: string; name: string } | null>(null);
-  const [branches, setBranches] = useState<string[]>([]);
-  const [paths, setPaths] = useState<string[]>([]);
-  const [isLoadingBranches, setIsLoadingBranches] = useState(false);
-  const [isLoadingPaths, setIsLoadingPaths] = useState(false);
-  const [repoError, setRepoError] = useState<string | null>(null);
-
-  // Parse repo input and fetch branches when it changes
-  useEffect(() => {
-    const parsed = parseRepoInput(repoInput);
-    setParsedRepo(parsed);
-    
-    if (!parsed) {
-      setBranches([]);
-      setPaths([]);
+  const [name, setName] = useState(rig?.name ?? "");
+  const [tagline, setTagline] = useState(rig?.tagline ?? "");
+  const [description, setDescription] = useState(rig?.description ?? "");
+  const [category, setCategory] = useState<string>(rig?.category ?? "");
+  const [repoInput, setRepoInput] = useState(rig ? formatRepoInput(rig.repository) : "");
+  const [repoBranch, setRepoBranch] = useState(rig?.repository.branch ?? "");
+  const [repoPath, setRepoPath] = useState(
+    rig ? rig.repository.path || "." : ""
+  );
+
+  // Dynamic data from the repository's host. Each lookup remembers which repo
+  // (and branch) it was for, so results for a previous input are ignored.
+  // Generic Git hosts can't be listed, so branch and path are typed in.
+  const parsedRepo = useMemo(() => parseRepoInput(repoInput), [repoInput]);
+  const repoKey = parsedRepo ? toRepoQuery(parsedRepo) : null;
+  const canListRepo = parsedRepo !== null && parsedRepo.provider !== "git";
+  const pathsKey = repoKey && repoBranch ? `${repoKey}@${repoBranch}` : null;
+  const [branchLookup, setBranchLookup] = useState<{
+    key: string;
+    branches: string[];
+    error?: string;
+  } | null>(null);
+  const [pathLookup, setPathLookup] = useState<{
+    key: string;
+    paths: string[];
+    error?: string;
+  } | null>(null);
+
+  const branches = branchLookup?.key === repoKey ? branchLookup.branches : [];
+  const foundPaths = pathLookup?.key === pathsKey ? pathLookup.paths : [];
+  const pathsError = pathLookup?.key === pathsKey ? pathLookup.error ?? null : null;
+  // Keep the current path selectable even if the scan missed it (e.g. when editing)
+  const paths =
+    foundPaths.length > 0 && repoPath && !foundPaths.includes(repoPath)
+      ? [repoPath, ...foundPaths]
+      : foundPaths;
+  const isLoadingBranches = canListRepo && repoKey !== null && branchLookup?.key !== repoKey;
+  const isLoadingPaths = canListRepo && pathsKey !== null && pathLookup?.key !== pathsKey;
+  const repoError = !parsedRepo
+    ? repoInput.trim()
+      ? "Enter a valid repository (owner/repo or repository URL)"
+      : null
+    : branchLookup?.key === repoKey
+      ? branchLookup.error ?? null
+      : null;
+
+  function handleRepoInputChange(value: string) {
+    setRepoInput(value);
+    const next = parseRepoInput(value);
+    const nextKey = next ? toRepoQuery(next) : null;
+    if (nextKey !== repoKey) {
       setRepoBranch("");
       setRepoPath("");
-      setRepoError(repoInput.trim() ? "Enter a valid repository (owner/repo or GitHub URL)" : null);
-      return;
     }
+  }
 
-    setRepoError(null);
-    setIsLoadingBranches(true);
-    setBranches([]);
-    setRepoBranch("");
-    setPaths([]);
+  function handleBranchChange(value: string) {
+    setRepoBranch(value);
     setRepoPath("");
+  }
 
-    fetch(`https://api.github.com/repos/${parsed.owner}/${parsed.name}/branches`, {
-      headers: { Accept: "application/vnd.github.v3+json" },
-    })
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error(res.status === 404 ? "Repository not found" : "Failed to fetch branches");
-        }
-        return res.json();
-      })
-      .then((data: GitHubBranch[]) => {
-        const branchNames = data.map((b) => b.name);
-        setBranches(branchNames);
-        // Auto-select main or master if available
-        if (branchNames.includes("main")) {
-          setRepoBranch("main");
-        } else if (branchNames.includes("master")) {
-          setRepoBranch("master");
-        } else if (branchNames.length > 0) {
-          setRepoBranch(branchNames[0]);
-        }
+  // Fetch branches when the repo changes
+  useEffect(() => {
+    if (!repoKey || !canListRepo) return;
+
+    let cancelled = false;
+    fetchRepository<{ branches: string[] }>("branches", repoKey)
+      .then(({ branches: branchNames }) => {
+        if (cancelled) return;
+        setBranchLookup({ key: repoKey, branches: branchNames });
+        // Auto-select main or master if available, unless a branch is
+        // already chosen (e.g. when editing)
+        const defaultBranch = branchNames.includes("main")
+          ? "main"
+          : branchNames.includes("master")
+            ? "master"
+            : branchNames[0] ?? "";
+        setRepoBranch((current) => current || defaultBranch);
       })
       .catch((err) => {
-        setRepoError(err.message);
-      })
-      .finally(() => {
-        setIsLoadingBranches(false);
+        if (cancelled) return;
+        setBranchLookup({ key: repoKey, branches: [], error: err.message });
       });
-  }, [repoInput]);
-
-  // Fetch paths containing install scripts when branch changes
-  const findRigPaths = useCallback(async (owner: string, repo: string, branch: string, currentPath = ""): Promise<string[]> => {
-    const url = currentPath
-      ? `https://api.github.com/repos/${owner}/${repo}/contents/${currentPath}?ref=${branch}`
-      : `https://api.github.com/repos/${owner}/${repo}/contents?ref=${branch}`;
 
-    const res = await fetch(url, {
-      headers: { Accept: "application/vnd.github.v3+json" },
-    });
-
-    if (!res.ok) return [];
+    return () => {
+      cancelled = true;
+    };
+  }, [repoKey, canListRepo]);
 
-    const contents: GitHubContent[] = await res.json();
-    if (!Array.isArray(contents)) return [];
+  // Scan for paths containing install scripts when branch changes
+  useEffect(() => {
+    if (!repoKey || !repoBranch || !canListRepo) return;
 
-    const rigPaths: string[] = [];
-    const fileNames = contents.map((c) => c.name);
+    const key = `${repoKey}@${repoBranch}`;
+    let cancelled = false;
 
-    // Check if this directory has at least one install script
-    if (fileNames.includes("install.ps1") || fileNames.includes("install.sh")) {
-      rigPaths.push(currentPath || ".");
-    }
+    findRigPaths(repoKey, repoBranch)
+      .then((found) => {
+        if (cancelled) return;
+        setPathLookup({ key, paths: found });
+        if (found.length === 1) {
+          setRepoPath((current) => current || found[0]);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPathLookup({ key, paths: [], error: err.message });
+      });
 
-    // Recursively check subdirectories (limit depth to avoid too many API calls)
-    const depth = currentPath.split("/").filter(Boolean).length;
-    if (depth < 3) {
-      const dirs = contents.filter((c) => c.type === "dir" && !c.name.startsWith(".") && c.name !== "node_modules");
-      const subResults = await Promise.all(
-        dirs.slice(0, 10).map((d) => findRigPaths(owner, repo, branch, d.path))
-      );
-      rigPaths.push(...subResults.flat());
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [repoKey, repoBranch, canListRepo]);
 
-    return rigPaths;
-  }, []);
+  // Load config.json from the selected rig folder to prefill the form
+  const configKey = pathsKey && repoPath ? `${pathsKey}:${repoPath}` : null;
+  const [configLookup, setConfigLookup] = useState<{
+    key: string;
+    result: RigConfigResult;
+  } | null>(null);
+  const configResult = configLookup?.key === configKey ? configLookup.result : null;
+  const rigConfig = configResult?.config ?? null;
 
   useEffect(() => {
-    if (!parsedRepo || !repoBranch) {
-      setPaths([]);
-      setRepoPath("");
-      return;
-    }
-
-    setIsLoadingPaths(true);
-    setPaths([]);
-    setRepoPath("");
+    if (!repoKey || !repoBranch || !repoPath) return;
+
+    const key = `${repoKey}@${repoBranch}:${repoPath}`;
+    let cancelled = false;
+
+    loadRigConfig({
+      ...fromRepoQuery(repoKey),
+      branch: repoBranch,
+      path: repoPath === "." ? "" : repoPath,
+    }).then((result) => {
+      if (cancelled) return;
+      setConfigLookup({ key, result });
+      // Only fill fields the user hasn't typed into yet; conflicts are
+      // surfaced next to each field instead of being overwritten
+      if (result.config) {
+        const config = result.config;
+        setName((current) => current || config.name);
+        setTagline((current) => current || config.tagline);
+        setDescription((current) => current || config.description);
+        setCategory((current) => current || config.category);
+      }
+    });
 
-    findRigPaths(parsedRepo.owner, parsedRepo.name, repoBranch)
-      .then((foundPaths) => {
-        setPaths(foundPaths);
-        if (foundPaths.length === 1) {
-          setRepoPath(foundPaths[0]);
-        }
-      })
-      .catch(() => {
-        setPaths([]);
-      })
-      .finally(() => {
-        setIsLoadingPaths(false);
-      });
-  }, [parsedRepo, repoBranch, findRigPaths]);
+    return () => {
+      cancelled = true;
+    };
+  }, [repoKey, repoBranch, repoPath]);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     
     if (!parsedRepo) {
-      setError("Please enter a valid GitHub repository");
+      setError("Please enter a valid repository");
       return;
     }
 
     setIsSubmitting(true);
     setError(null);
     setFieldErrors({});
+    setConfigIssues([]);
 
     const body = {
       name,
@@ -210,6 +295,8 @@ export function SubmitRigForm() {
       description,
       category,
       repository: {
+        provider: parsedRepo.provider,
+        host: parsedRepo.host,
         owner: parsedRepo.owner,
         name: parsedRepo.name,
         branch: repoBranch,
@@ -218,8 +305,8 @@ export function SubmitRigForm() {
     };
 
     try {
-      const res = await fetch("/api/rigs", {
-        method: "POST",
+      const res = await fetch(isEditing ? `/api/rigs/${rig.slug}` : "/api/rigs", {
+        method: isEditing ? "PATCH" : "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
       });
@@ -230,13 +317,17 @@ export function SubmitRigForm() {
         if (data.details?.fieldErrors) {
           setFieldErrors(data.details.fieldErrors);
         }
+        if (data.details?.configIssues) {
+          setConfigIssues(data.details.configIssues);
+        }
         setError(data.error || "Something went wrong");
         setIsSubmitting(false);
         return;
       }
 
-      // Redirect to the new rig's page
+      // Redirect to the rig's page
       router.push(`/rigs/${data.slug}`);
+      router.refresh();
     } catch {
       setError("Network error. Please try again.");
       setIsSubmitting(false);
@@ -248,6 +339,15 @@ export function SubmitRigForm() {
       {error && (
         <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-700 dark:text-red-400">
           {error}
+          {configIssues.length > 0 && (
+            <ul className="mt-2 list-disc list-inside space-y-1 font-mono text-xs">
+              {configIssues.map((issue, i) => (
+                <li key={i}>
+                  {issue.path}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -255,7 +355,8 @@ export function SubmitRigForm() {
         <CardHeader>
           <CardTitle>About Your Rig</CardTitle>
           <CardDescription>
-            Give your rig a name and describe what it does.
+            Give your rig a name and describe what it does. If your rig folder
+            has a config.json, these are filled in from it.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -271,6 +372,11 @@ export function SubmitRigForm() {
             {fieldErrors.name && (
               <p className="text-xs text-red-500">{fieldErrors.name[0]}</p>
             )}
+            <ConfigFieldHint
+              value={name}
+              configValue={rigConfig?.name}
+              onUseConfig={setName}
+            />
           </div>
 
           <div className="space-y-2">
@@ -285,6 +391,11 @@ export function SubmitRigForm() {
             {fieldErrors.tagline && (
               <p className="text-xs text-red-500">{fieldErrors.tagline[0]}</p>
             )}
+            <ConfigFieldHint
+              value={tagline}
+              configValue={rigConfig?.tagline}
+              onUseConfig={setTagline}
+            />
           </div>
 
           <div className="space-y-2">
@@ -300,6 +411,11 @@ export function SubmitRigForm() {
             {fieldErrors.description && (
               <p className="text-xs text-red-500">{fieldErrors.description[0]}</p>
             )}
+            <ConfigFieldHint
+              value={description}
+              configValue={rigConfig?.description}
+              onUseConfig={setDescription}
+            />
           </div>
 
           <div className="space-y-2">
@@ -310,7 +426,8 @@ export function SubmitRigForm() {
               </SelectTrigger>
               <SelectContent>
                 {categories.map((c) => (
-                  <SelectItem key={c.value} value={c.value}>
+                  <SelectItem key={c.slug} value={c.slug}>
+                    <CategoryIcon icon={c.icon} />
                     {c.label}
                   </SelectItem>
                 ))}
@@ -319,15 +436,21 @@ export function SubmitRigForm() {
             {fieldErrors.category && (
               <p className="text-xs text-red-500">{fieldErrors.category[0]}</p>
             )}
+            <ConfigFieldHint
+              value={category}
+              configValue={rigConfig?.category}
+              onUseConfig={setCategory}
+            />
           </div>
         </CardContent>
       </Card>
 
       <Card>
         <CardHeader>
-          <CardTitle>GitHub Repository</CardTitle>
+          <CardTitle>Repository</CardTitle>
           <CardDescription>
-            Where your rig lives. Must contain install.ps1 or install.sh.
+            Where your rig lives, on GitHub, GitLab, Bitbucket or another Git
+            host. Must contain install.ps1 or install.sh.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -336,8 +459,8 @@ export function SubmitRigForm() {
             <Input
               id="repoInput"
               value={repoInput}
-              onChange={(e) => setRepoInput(e.target.value)}
-              placeholder="owner/repo or https://github.com/owner/repo"
+              onChange={(e) => handleRepoInputChange(e.target.value)}
+              placeholder="owner/repo or https://gitlab.com/group/repo"
               required
             />
             {repoError && (
@@ -345,7 +468,14 @@ export function SubmitRigForm() {
             )}
             {parsedRepo && !repoError && (
               <p className="text-xs text-green-600">
-                Found: {parsedRepo.owner}/{parsedRepo.name}
+                {parsedRepo.provider === "file" ? (
+                  "Serving from this server's local rigs directory"
+                ) : (
+                  <>
+                    Found on {parsedRepo.host ?? getProvider(parsedRepo).label}:{" "}
+                    {parsedRepo.owner}/{parsedRepo.name}
+                  </>
+                )}
               </p>
             )}
           </div>
@@ -359,7 +489,7 @@ export function SubmitRigForm() {
                   Loading branches...
                 </div>
               ) : branches.length > 0 ? (
-                <Select value={repoBranch} onValueChange={setRepoBranch} required>
+                <Select value={repoBranch} onValueChange={handleBranchChange} required>
                   <SelectTrigger id="repoBranch">
                     <SelectValue placeholder="Select a branch" />
                   </SelectTrigger>
@@ -375,7 +505,7 @@ export function SubmitRigForm() {
                 <Input
                   id="repoBranch"
                   value={repoBranch}
-                  onChange={(e) => setRepoBranch(e.target.value)}
+                  onChange={(e) => handleBranchChange(e.target.value)}
                   placeholder="main"
                   disabled={!parsedRepo}
                 />
@@ -412,11 +542,28 @@ export function SubmitRigForm() {
                   disabled={!repoBranch}
                 />
               )}
-              <p className="text-xs text-muted-foreground">
-                {paths.length === 0 && repoBranch && !isLoadingPaths
-                  ? "No install scripts found. Enter path manually or check your repo."
-                  : "Folder containing install.ps1 or install.sh"}
-              </p>
+              {pathsError ? (
+                <p className="text-xs text-red-500">{pathsError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {canListRepo && paths.length === 0 && repoBranch && !isLoadingPaths
+                    ? "No install scripts found. Enter path manually or check your repo."
+                    : "Folder containing install.ps1 or install.sh"}
+                </p>
+              )}
+              {rigConfig && (
+                <p className="text-xs text-green-600">
+                  Loaded config.json (v{rigConfig.version})
+                </p>
+              )}
+              {configResult && configResult.issues.length > 0 && (
+                <p className="text-xs text-red-500">
+                  config.json has {configResult.issues.length} problem(s):{" "}
+                  {configResult.issues
+                    .map((issue) => `${issue.path}: ${issue.message}`)
+                    .join("; ")}
+                </p>
+              )}
             </div>
           </div>
         </CardContent>
@@ -432,7 +579,9 @@ export function SubmitRigForm() {
           Cancel
         </Button>
         <Button type="submit" disabled={isSubmitting}>
-          {isSubmitting ? "Submitting..." : "Submit Rig"}
+          {isEditing
+            ? isSubmitting ? "Saving..." : "Save Changes"
+            : isSubmitting ? "Submitting..." : "Submit Rig"}
         </Button>
       </div>
     </form>
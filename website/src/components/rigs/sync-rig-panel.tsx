@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { RigFieldChange } from "@/lib/rigs/sync";
+
+interface SyncRigPanelProps {
+  slug: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "(none)";
+  return String(value);
+}
+
+/**
+ * Lets a rig's owner preview and apply metadata changes from config.json.
+ */
+export function SyncRigPanel({ slug }: SyncRigPanelProps) {
+  const router = useRouter();
+  const [changes, setChanges] = useState<RigFieldChange[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function runSync(dryRun: boolean) {
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const res = await fetch(
+        `/api/rigs/${slug}/sync${dryRun ? "?dryRun=true" : ""}`,
+        { method: "POST" }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        return;
+      }
+
+      if (dryRun) {
+        setChanges(data.changes);
+        if (data.changes.length === 0) {
+          setMessage("Already in sync with config.json.");
+        }
+        // The check also refreshes the rig's consistency warnings
+        router.refresh();
+      } else {
+        setChanges(null);
+        setMessage(`Updated ${data.changes.length} field(s) from config.json.`);
+        router.refresh();
+      }
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {changes && changes.length > 0 && (
+        <ul className="space-y-2 text-xs">
+          {changes.map((change) => (
+            <li key={change.field}>
+              <p className="font-medium">{change.field}</p>
+              <p className="text-red-700 dark:text-red-400 line-clamp-2">
+                - {formatValue(change.from)}
+              </p>
+              <p className="text-green-700 dark:text-green-400 line-clamp-2">
+                + {formatValue(change.to)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runSync(true)}
+          disabled={isLoading}
+        >
+          Check for changes
+        </Button>
+        {changes && changes.length > 0 && (
+          <Button size="sm" onClick={() => runSync(false)} disabled={isLoading}>
+            Apply {changes.length} change(s)
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
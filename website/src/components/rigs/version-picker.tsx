@@ -0,0 +1,49 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Radix Select does not allow an empty value, so "latest" stands in for
+// the repository's branch
+const LATEST = "latest";
+
+interface VersionPickerProps {
+  slug: string;
+  branch: string;
+  versions: string[];
+  selected: string | null;
+}
+
+export function VersionPicker({ slug, branch, versions, selected }: VersionPickerProps) {
+  const router = useRouter();
+
+  function handleChange(value: string) {
+    router.push(
+      value === LATEST
+        ? `/rigs/${slug}`
+        : `/rigs/${slug}?version=${encodeURIComponent(value)}`
+    );
+  }
+
+  return (
+    <Select value={selected ?? LATEST} onValueChange={handleChange}>
+      <SelectTrigger className="w-56" aria-label="Version">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={LATEST}>Latest ({branch})</SelectItem>
+        {versions.map((version) => (
+          <SelectItem key={version} value={version}>
+            v{version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
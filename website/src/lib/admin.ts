@@ -0,0 +1,19 @@
+/**
+ * GitHub logins allowed to moderate rigs, from the comma-separated
+ * ADMIN_GITHUB_LOGINS env var. GitHub logins are case-insensitive.
+ */
+function getAdminLogins(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_GITHUB_LOGINS ?? "")
+      .split(",")
+      .map((login) => login.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Whether a GitHub login belongs to a site admin.
+ */
+export function isAdmin(login: string | null | undefined): boolean {
+  return !!login && getAdminLogins().has(login.toLowerCase());
+}
@@ -1,5 +1,7 @@
 import NextAuth from "next-auth";
+import { getToken } from "next-auth/jwt";
 import GitHub from "next-auth/providers/github";
+import { isAdmin } from "./admin";
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
   providers: [
@@ -20,19 +22,38 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       if (token.login) {
         session.user.login = token.login as string;
       }
+      session.user.isAdmin = isAdmin(session.user.login);
       return session;
     },
-    async jwt({ token, profile }) {
+    async jwt({ token, profile, account }) {
       // On initial sign-in, persist the GitHub login (username) into the JWT
       if (profile) {
         token.login = (profile as { login?: string }).login;
       }
+      // Keep the OAuth token for GitHub API calls made on the user's behalf.
+      // It stays in the encrypted JWT and is never added to the session.
+      if (account?.access_token) {
+        token.accessToken = account.access_token;
+      }
       return token;
     },
   },
 });
 
-// Extend the session types to include the GitHub login
+/**
+ * The signed-in user's GitHub OAuth token, or null if they're signed out or
+ * signed in before tokens were kept.
+ */
+export async function getGitHubToken(request: Request): Promise<string | null> {
+  const token = await getToken({
+    req: request,
+    secret: process.env.AUTH_SECRET,
+    secureCookie: new URL(request.url).protocol === "https:",
+  });
+  return typeof token?.accessToken === "string" ? token.accessToken : null;
+}
+
+// Extend the session types to include the GitHub login and admin flag
 declare module "next-auth" {
   interface Session {
     user: {
@@ -41,6 +62,7 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       login?: string;
+      isAdmin?: boolean;
     };
   }
 }
@@ -4,23 +4,171 @@ import {
   text,
   timestamp,
   jsonb,
+  integer,
+  boolean,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type {
+  ConsistencyIssue,
+  RigConfig,
+  RigHealthProblem,
+  RigRepository,
+  ScriptHashes,
+  ScriptSafetyReport,
+} from "../rigs/types";
 
-export const rigs = pgTable("rigs", {
+export const rigs = pgTable(
+  "rigs",
+  {
+    id: serial("id").primaryKey(),
+    slug: text("slug").notNull().unique(),
+    name: text("name").notNull(),
+    tagline: text("tagline").notNull(),
+    description: text("description").notNull(),
+    // Categories can't be deleted while rigs are still in them
+    category: text("category")
+      .notNull()
+      .references(() => categories.slug, { onDelete: "restrict" }),
+    // Discovery metadata copied from config.json so the catalog can filter on it
+    tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+    difficulty: text("difficulty"),
+    readiness: text("readiness"),
+    // Denormalized so the catalog can sort by popularity without a join
+    installCount: integer("install_count").notNull().default(0),
+    failedInstallCount: integer("failed_install_count").notNull().default(0),
+    starCount: integer("star_count").notNull().default(0),
+    repository: jsonb("repository")
+      .$type<RigRepository>()
+      .notNull(),
+    // Branch resolved to a commit on submit/sync, with hashes of the install
+    // scripts at that commit, for verified installs, and their safety scan
+    pinnedCommitSha: text("pinned_commit_sha"),
+    scriptHashes: jsonb("script_hashes").$type<ScriptHashes>(),
+    safetyReport: jsonb("safety_report").$type<ScriptSafetyReport>(),
+    submittedBy: text("submitted_by").notNull(),
+    submittedByAvatar: text("submitted_by_avatar"),
+    // Moderation: new submissions stay hidden from the catalog until approved
+    status: text("status").notNull().default("pending"),
+    reviewedBy: text("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at"),
+    rejectionReason: text("rejection_reason"),
+    // Denormalized from the latest rig_health_checks row for badges
+    healthStatus: text("health_status"),
+    healthCheckedAt: timestamp("health_checked_at"),
+    // Last check of config.json against the repository; see lib/rigs/consistency
+    consistencyIssues: jsonb("consistency_issues").$type<ConsistencyIssue[]>(),
+    consistencyCheckedAt: timestamp("consistency_checked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("rigs_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.name} || ' ' || ${table.tagline} || ' ' || ${table.description})`
+    ),
+    index("rigs_tags_idx").using("gin", table.tags),
+    index("rigs_status_idx").on(table.status),
+  ]
+);
+
+export const rigVersions = pgTable(
+  "rig_versions",
+  {
+    id: serial("id").primaryKey(),
+    rigId: integer("rig_id")
+      .notNull()
+      .references(() => rigs.id, { onDelete: "cascade" }),
+    version: text("version").notNull(),
+    // Commit the version was published from, so installs can be pinned to it
+    commitSha: text("commit_sha").notNull(),
+    // config.json exactly as it was at commitSha
+    config: jsonb("config").$type<RigConfig>().notNull(),
+    changelog: text("changelog"),
+    publishedBy: text("published_by").notNull(),
+    // Static safety scan of install.sh/install.ps1 at commitSha
+    safetyReport: jsonb("safety_report").$type<ScriptSafetyReport>(),
+    scriptHashes: jsonb("script_hashes").$type<ScriptHashes>(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("rig_versions_rig_version_idx").on(table.rigId, table.version)]
+);
+
+export const rigInstalls = pgTable(
+  "rig_installs",
+  {
+    id: serial("id").primaryKey(),
+    rigId: integer("rig_id")
+      .notNull()
+      .references(() => rigs.id, { onDelete: "cascade" }),
+    installer: text("installer").notNull(),
+    installerVersion: text("installer_version").notNull(),
+    success: boolean("success").notNull(),
+    // Salted hash of the caller's IP, only kept to rate-limit anonymous reports
+    clientHash: text("client_hash"),
+    reportedBy: text("reported_by"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("rig_installs_rig_idx").on(table.rigId),
+    index("rig_installs_client_idx").on(table.clientHash, table.createdAt),
+  ]
+);
+
+export const rigStars = pgTable(
+  "rig_stars",
+  {
+    id: serial("id").primaryKey(),
+    rigId: integer("rig_id")
+      .notNull()
+      .references(() => rigs.id, { onDelete: "cascade" }),
+    // GitHub login of the user who starred the rig
+    login: text("login").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("rig_stars_rig_login_idx").on(table.rigId, table.login),
+    index("rig_stars_login_idx").on(table.login),
+  ]
+);
+
+export const rigHealthChecks = pgTable(
+  "rig_health_checks",
+  {
+    id: serial("id").primaryKey(),
+    rigId: integer("rig_id")
+      .notNull()
+      .references(() => rigs.id, { onDelete: "cascade" }),
+    status: text("status").notNull(),
+    problems: jsonb("problems").$type<RigHealthProblem[]>().notNull(),
+    checkedAt: timestamp("checked_at").notNull().defaultNow(),
+  },
+  (table) => [index("rig_health_checks_rig_idx").on(table.rigId, table.checkedAt)]
+);
+
+// Catalog categories. Rigs refer to them by slug, which never changes once
+// created; categories in use can't be deleted.
+export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   slug: text("slug").notNull().unique(),
-  name: text("name").notNull(),
-  tagline: text("tagline").notNull(),
-  description: text("description").notNull(),
-  category: text("category").notNull(),
-  repository: jsonb("repository")
-    .$type<{ owner: string; name: string; branch: string; path: string }>()
-    .notNull(),
-  submittedBy: text("submitted_by").notNull(),
-  submittedByAvatar: text("submitted_by_avatar"),
+  label: text("label").notNull(),
+  description: text("description").notNull().default(""),
+  icon: text("icon").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export type Rig = typeof rigs.$inferSelect;
 export type NewRig = typeof rigs.$inferInsert;
+export type RigVersion = typeof rigVersions.$inferSelect;
+export type NewRigVersion = typeof rigVersions.$inferInsert;
+export type RigInstall = typeof rigInstalls.$inferSelect;
+export type NewRigInstall = typeof rigInstalls.$inferInsert;
+export type RigStar = typeof rigStars.$inferSelect;
+export type NewRigStar = typeof rigStars.$inferInsert;
+export type RigHealthCheck = typeof rigHealthChecks.$inferSelect;
+export type NewRigHealthCheck = typeof rigHealthChecks.$inferInsert;
+export type Category = typeof categories.$inferSelect;
+export type NewCategory = typeof categories.$inferInsert;
@@ -0,0 +1,219 @@
+/**
+ * Line-based diffing (Myers' algorithm) for comparing rig files between
+ * versions, with helpers to group the result into hunks and side-by-side rows.
+ */
+
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old file; unset for added lines */
+  oldNumber?: number;
+  /** 1-based line number in the new file; unset for removed lines */
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** A row of a side-by-side diff; either side is unset where lines were added or removed */
+export interface SplitDiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Split file contents into lines, ignoring a trailing newline.
+ */
+export function splitLines(content: string): string[] {
+  if (content === "") return [];
+  return content.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+/**
+ * Shortest edit script between two line arrays, as a sequence of context,
+ * removed and added lines.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Common prefix and suffix don't need the full algorithm
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops = myers(a, b);
+
+  const result: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  const context = (text: string) =>
+    result.push({ type: "context", text, oldNumber: oldNumber++, newNumber: newNumber++ });
+
+  oldLines.slice(0, prefix).forEach(context);
+  for (const op of ops) {
+    if (op.type === "context") context(op.text);
+    else if (op.type === "remove") result.push({ type: "remove", text: op.text, oldNumber: oldNumber++ });
+    else result.push({ type: "add", text: op.text, newNumber: newNumber++ });
+  }
+  oldLines.slice(oldLines.length - suffix).forEach(context);
+
+  return result;
+}
+
+/**
+ * Myers' O(ND) diff. Each step's frontier is saved so the edit path can be
+ * recovered by walking back from the end.
+ */
+function myers(a: string[], b: string[]): { type: DiffLineType; text: string }[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1] // step down: insertion
+          : v[offset + k - 1] + 1; // step right: deletion
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+  }
+
+  // Walk back through the saved frontiers, collecting ops in reverse
+  const ops: { type: DiffLineType; text: string }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    // trace[d - 1] covers diagonals -(d-1)-1 .. (d-1)+1
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "context", text: a[--x] });
+      y--;
+    }
+    if (prevK === k + 1) {
+      ops.push({ type: "add", text: b[--y] });
+    } else {
+      ops.push({ type: "remove", text: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: "context", text: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Group a diff into hunks of changes with `context` unchanged lines around
+ * each. Returns no hunks if nothing changed.
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  // Ranges of line indexes to show, merged where their context overlaps
+  const ranges: [number, number][] = [];
+  lines.forEach((line, i) => {
+    if (line.type === "context") return;
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length - 1, i + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => buildHunk(lines.slice(start, end + 1)));
+}
+
+function buildHunk(lines: DiffLine[]): DiffHunk {
+  const first = lines[0];
+  const oldLines = lines.filter((line) => line.type !== "add").length;
+  const newLines = lines.filter((line) => line.type !== "remove").length;
+
+  // An added line has no old number (and vice versa), so look for the first
+  // line that has one
+  const oldStart = lines.find((line) => line.oldNumber !== undefined)?.oldNumber ?? 0;
+  const newStart = lines.find((line) => line.newNumber !== undefined)?.newNumber ?? 0;
+
+  return {
+    oldStart: oldLines > 0 ? oldStart : Math.max(0, (first.newNumber ?? 1) - 1),
+    oldLines,
+    newStart: newLines > 0 ? newStart : Math.max(0, (first.oldNumber ?? 1) - 1),
+    newLines,
+    lines,
+  };
+}
+
+/**
+ * Pair up a hunk's lines for side-by-side display: removed lines on the left
+ * line up with the lines that replaced them on the right.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "remove") {
+      removed.push(line);
+    } else if (line.type === "add") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
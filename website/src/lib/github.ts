@@ -0,0 +1,179 @@
+const GITHUB_API_URL = "https://api.github.com";
+
+/** Cached responses kept per token; the oldest are evicted first */
+const MAX_CACHE_ENTRIES = 500;
+/** Retries for network failures and GitHub 5xx errors */
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface GitHubResponse<T> {
+  /** Status of the response; a 304 served from the cache is reported as 200 */
+  status: number;
+  ok: boolean;
+  /** Parsed JSON, or the text of non-JSON responses (e.g. a commit SHA) */
+  data: T;
+  rateLimit: GitHubRateLimit | null;
+  /** Set when the request was refused because the token ran out of requests */
+  rateLimited: boolean;
+}
+
+export interface GitHubRequestOptions {
+  /**
+   * The signed-in user's OAuth token. Falls back to GITHUB_TOKEN, then to
+   * unauthenticated requests (60 an hour per IP).
+   */
+  token?: string | null;
+  accept?: string;
+}
+
+interface CacheEntry {
+  etag: string;
+  response: GitHubResponse<unknown>;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<GitHubResponse<unknown>>>();
+
+function readRateLimit(headers: Headers): GitHubRateLimit | null {
+  const limit = headers.get("x-ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000),
+  };
+}
+
+async function cacheKey(path: string, accept: string, token: string | undefined): Promise<string> {
+  // Responses depend on what the token can see, so they're cached per token.
+  // Web Crypto rather than node:crypto, since repository providers that call
+  // this are also bundled for the browser.
+  let scope = "anonymous";
+  if (token) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+    scope = Array.from(new Uint8Array(digest).slice(0, 8), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+  }
+  return `${scope} ${accept} ${path}`;
+}
+
+function remember(key: string, entry: CacheEntry) {
+  cache.delete(key);
+  cache.set(key, entry);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+async function request<T>(
+  path: string,
+  key: string,
+  accept: string,
+  token: string | undefined
+): Promise<GitHubResponse<T>> {
+  const cached = cache.get(key);
+  const headers: Record<string, string> = {
+    Accept: accept,
+    "User-Agent": "ai-foundry",
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  // Conditional requests that come back 304 don't count against the limit
+  if (cached) headers["If-None-Match"] = cached.etag;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(`${GITHUB_API_URL}${path}`, { headers, cache: "no-store" });
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) throw error;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+      continue;
+    }
+
+    if (res.status >= 500 && attempt < MAX_RETRIES) {
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+      continue;
+    }
+
+    const rateLimit = readRateLimit(res.headers);
+    if (res.status === 304 && cached) {
+      remember(key, cached);
+      return { ...(cached.response as GitHubResponse<T>), rateLimit };
+    }
+
+    const data = (res.headers.get("content-type")?.includes("json")
+      ? await res.json()
+      : await res.text()) as T;
+    const response: GitHubResponse<T> = {
+      status: res.status,
+      ok: res.ok,
+      data,
+      rateLimit,
+      rateLimited:
+        (res.status === 403 || res.status === 429) &&
+        (rateLimit?.remaining === 0 || res.headers.has("retry-after")),
+    };
+
+    const etag = res.headers.get("etag");
+    if (res.ok && etag) {
+      remember(key, { etag, response });
+    }
+    return response;
+  }
+}
+
+/**
+ * GET a GitHub REST API path (e.g. `/repos/owner/name/branches`). Identical
+ * requests already in flight share one response, and responses are cached
+ * and revalidated with their ETag.
+ */
+export async function githubRequest<T = unknown>(
+  path: string,
+  { token, accept = "application/vnd.github+json" }: GitHubRequestOptions = {}
+): Promise<GitHubResponse<T>> {
+  const authToken = token || process.env.GITHUB_TOKEN || undefined;
+  const key = await cacheKey(path, accept, authToken);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<GitHubResponse<T>>;
+
+  const promise = request<T>(path, key, accept, authToken).finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * A message for users when GitHub's rate limit has been reached.
+ */
+export function rateLimitMessage(rateLimit: GitHubRateLimit | null): string {
+  if (!rateLimit) {
+    return "GitHub is limiting requests right now. Please try again in a minute.";
+  }
+  const minutes = Math.max(1, Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 60000));
+  return `GitHub's API rate limit was reached. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+/**
+ * GitHub's rate-limit headers, for passing a response's limits on to the
+ * browser.
+ */
+export function rateLimitHeaders(rateLimit: GitHubRateLimit | null): Record<string, string> {
+  if (!rateLimit) return {};
+  return {
+    "X-RateLimit-Limit": String(rateLimit.limit),
+    "X-RateLimit-Remaining": String(rateLimit.remaining),
+    "X-RateLimit-Reset": String(Math.floor(rateLimit.resetAt.getTime() / 1000)),
+  };
+}
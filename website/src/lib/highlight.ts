@@ -0,0 +1,175 @@
+/**
+ * A small line-based syntax highlighter for the file types rigs ship: shell
+ * and PowerShell scripts, YAML workflows, JSON and Markdown. It only needs to
+ * be good enough to make scripts readable, so constructs that span lines
+ * (heredocs, multi-line strings) are not tracked -- except PowerShell block
+ * comments, which are common in installer headers.
+ */
+
+export type HighlightLanguage = "bash" | "powershell" | "yaml" | "json" | "markdown" | "text";
+
+export type TokenKind =
+  | "comment"
+  | "string"
+  | "keyword"
+  | "function"
+  | "variable"
+  | "number"
+  | "key"
+  | "heading";
+
+export interface HighlightToken {
+  text: string;
+  /** Unset for plain text */
+  kind?: TokenKind;
+}
+
+type LanguageRules = [TokenKind, RegExp][];
+
+const numberRule: [TokenKind, RegExp] = ["number", /-?\b\d+(?:\.\d+)?\b/];
+
+const rules: Record<HighlightLanguage, LanguageRules> = {
+  bash: [
+    ["comment", /(?:^|(?<=\s))#.*/],
+    ["string", /"(?:[^"\\]|\\.)*"?|'[^']*'?/],
+    ["variable", /\$\{[^}]*\}|\$[A-Za-z_]\w*|\$[0-9@#?$!*-]/],
+    [
+      "keyword",
+      /\b(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|local|export|readonly|exit|source|trap|shift|set)\b/,
+    ],
+    ["function", /\b(?:echo|printf|read|cd|command|curl|wget|mkdir|rm|cp|mv|cat|chmod|grep|sed|git|gh)\b/],
+    numberRule,
+  ],
+  powershell: [
+    ["comment", /<#.*?#>|<#.*|#.*/],
+    ["string", /"(?:[^"`]|`.)*"?|'(?:[^']|'')*'?/],
+    ["variable", /\$(?:\{[^}]*\}|[A-Za-z_][\w:]*|[$?_])/],
+    [
+      "keyword",
+      /\b(?:if|else|elseif|foreach|for|while|do|switch|function|param|return|try|catch|finally|throw|exit|break|continue|begin|process|end|trap)\b/i,
+    ],
+    ["function", /\b[A-Z][a-z]+-[A-Z][A-Za-z]+\b/],
+    numberRule,
+  ],
+  yaml: [
+    ["comment", /(?:^|(?<=\s))#.*/],
+    ["variable", /\$\{\{.*?\}\}/],
+    ["key", /[\w.\-/"']+(?=\s*:(?:\s|$))/],
+    ["string", /"(?:[^"\\]|\\.)*"?|'(?:[^']|'')*'?/],
+    ["keyword", /\b(?:true|false|null|yes|no|on|off)\b/],
+    numberRule,
+  ],
+  json: [
+    ["key", /"(?:[^"\\]|\\.)*"(?=\s*:)/],
+    ["string", /"(?:[^"\\]|\\.)*"?/],
+    ["keyword", /\b(?:true|false|null)\b/],
+    ["number", /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+  ],
+  markdown: [
+    ["heading", /^#{1,6}\s.*/],
+    ["comment", /<!--.*?-->/],
+    ["string", /`[^`]*`/],
+    ["variable", /\[[^\]]*\]\([^)]*\)/],
+    ["keyword", /\*\*[^*]+\*\*/],
+  ],
+  text: [],
+};
+
+/**
+ * Combine a language's rules into one global regex with a capture group per
+ * rule, so the first rule to match at a position wins.
+ */
+function compile(languageRules: LanguageRules): RegExp | null {
+  if (languageRules.length === 0) return null;
+
+  const flags = languageRules.some(([, pattern]) => pattern.flags.includes("i")) ? "gi" : "g";
+  return new RegExp(languageRules.map(([, pattern]) => `(${pattern.source})`).join("|"), flags);
+}
+
+const compiled = Object.fromEntries(
+  Object.entries(rules).map(([language, languageRules]) => [language, compile(languageRules)])
+) as Record<HighlightLanguage, RegExp | null>;
+
+/**
+ * Pick a language from a file name's extension.
+ */
+export function languageForFile(fileName: string): HighlightLanguage {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "sh":
+    case "bash":
+      return "bash";
+    case "ps1":
+    case "psm1":
+      return "powershell";
+    case "yml":
+    case "yaml":
+      return "yaml";
+    case "json":
+      return "json";
+    case "md":
+      return "markdown";
+    default:
+      return "text";
+  }
+}
+
+function tokenizeLine(line: string, language: HighlightLanguage): HighlightToken[] {
+  const pattern = compiled[language];
+  if (!pattern) return [{ text: line }];
+
+  const tokens: HighlightToken[] = [];
+  let last = 0;
+
+  for (const match of line.matchAll(pattern)) {
+    if (match[0] === "") continue;
+
+    const index = match.index;
+    if (index > last) tokens.push({ text: line.slice(last, index) });
+
+    // The first defined capture group tells us which rule matched
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+    tokens.push({ text: match[0], kind: rules[language][group - 1][0] });
+    last = index + match[0].length;
+  }
+
+  if (last < line.length) tokens.push({ text: line.slice(last) });
+  return tokens;
+}
+
+/**
+ * Split source code into lines of highlighted tokens.
+ */
+export function highlightLines(code: string, language: HighlightLanguage): HighlightToken[][] {
+  const lines = code.replace(/\r?\n$/, "").split(/\r?\n/);
+  let inBlockComment = false;
+
+  return lines.map((line) => {
+    if (language !== "powershell") return tokenizeLine(line, language);
+
+    // PowerShell block comments can span lines: <# ... #>
+    if (inBlockComment) {
+      const end = line.indexOf("#>");
+      if (end === -1) return [{ text: line, kind: "comment" }];
+
+      inBlockComment = false;
+      return [
+        { text: line.slice(0, end + 2), kind: "comment" },
+        ...tokenizeLine(line.slice(end + 2), language),
+      ];
+    }
+
+    // An unclosed <# runs to the end of the line and opens a block comment
+    const tokens = tokenizeLine(line, language);
+    const lastToken = tokens[tokens.length - 1];
+    if (
+      lastToken?.kind === "comment" &&
+      lastToken.text.startsWith("<#") &&
+      !lastToken.text.includes("#>")
+    ) {
+      inBlockComment = true;
+    }
+
+    return tokens;
+  });
+}
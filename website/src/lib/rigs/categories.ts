@@ -0,0 +1,127 @@
+import { db } from "@/lib/db";
+import { categories, rigs } from "@/lib/db/schema";
+import { asc, count, DrizzleQueryError, eq } from "drizzle-orm";
+import type { Category, CategoryIconName } from "./types";
+import type { CategoryInput, UpdateCategoryInput } from "./validation";
+
+type CategoryRow = typeof categories.$inferSelect;
+
+function toCategory(row: CategoryRow): Category {
+  return { ...row, icon: row.icon as CategoryIconName };
+}
+
+/**
+ * Fetch every category in display order.
+ */
+export async function listCategories(): Promise<Category[]> {
+  const rows = await db
+    .select()
+    .from(categories)
+    .orderBy(asc(categories.sortOrder), asc(categories.label));
+
+  return rows.map(toCategory);
+}
+
+/**
+ * Fetch a single category by slug.
+ */
+export async function getCategory(slug: string): Promise<Category | null> {
+  const [row] = await db
+    .select()
+    .from(categories)
+    .where(eq(categories.slug, slug))
+    .limit(1);
+
+  return row ? toCategory(row) : null;
+}
+
+/**
+ * Number of rigs in each category, approved or not, keyed by slug.
+ */
+export async function getCategoryRigCounts(): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ category: rigs.category, value: count() })
+    .from(rigs)
+    .groupBy(rigs.category);
+
+  return Object.fromEntries(rows.map((row) => [row.category, row.value]));
+}
+
+/**
+ * Create a category. Returns an error if the slug is taken.
+ */
+export async function createCategory(
+  input: CategoryInput
+): Promise<
+  | { category: Category; error?: undefined; status?: undefined }
+  | { category?: undefined; error: string; status: number }
+> {
+  const [row] = await db
+    .insert(categories)
+    .values(input)
+    .onConflictDoNothing({ target: categories.slug })
+    .returning();
+
+  if (!row) {
+    return { error: `A category with the slug "${input.slug}" already exists`, status: 409 };
+  }
+  return { category: toCategory(row) };
+}
+
+/**
+ * Update a category's label, description, icon or order. Returns null if
+ * there's no such category.
+ */
+export async function updateCategory(
+  slug: string,
+  input: UpdateCategoryInput
+): Promise<Category | null> {
+  const [row] = await db
+    .update(categories)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(categories.slug, slug))
+    .returning();
+
+  return row ? toCategory(row) : null;
+}
+
+/**
+ * Whether a query failed on a foreign key, such as a rig still referring to
+ * a category being deleted.
+ */
+function isForeignKeyViolation(error: unknown): boolean {
+  const cause = error instanceof DrizzleQueryError ? error.cause : error;
+  return typeof cause === "object" && cause !== null && "code" in cause && cause.code === "23503";
+}
+
+/**
+ * Delete a category. Categories that rigs are still in can't be deleted,
+ * since those rigs would be left pointing at nothing; the rigs' foreign key
+ * enforces that.
+ */
+export async function deleteCategory(
+  slug: string
+): Promise<{ error?: undefined; status?: undefined } | { error: string; status: number }> {
+  try {
+    const deleted = await db.delete(categories).where(eq(categories.slug, slug)).returning();
+    if (deleted.length === 0) {
+      return { error: "Category not found", status: 404 };
+    }
+    return {};
+  } catch (error) {
+    if (!isForeignKeyViolation(error)) throw error;
+  }
+
+  const [{ value: rigCount }] = await db
+    .select({ value: count() })
+    .from(rigs)
+    .where(eq(rigs.category, slug));
+
+  return {
+    error:
+      rigCount > 0
+        ? `${rigCount} rig${rigCount === 1 ? " is" : "s are"} still in this category. Move ${rigCount === 1 ? "it" : "them"} first.`
+        : "Rigs are still in this category. Move them first.",
+    status: 409,
+  };
+}
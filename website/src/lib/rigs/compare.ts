@@ -0,0 +1,184 @@
+import { diffLines, splitLines, type DiffLine } from "@/lib/diff";
+import { getViewableFileNames, fetchRigFile } from "./files";
+import { resolveCommitSha } from "./providers";
+import {
+  loadRigConfig,
+  type Rig,
+  type RigConfig,
+  type RigInstallerAction,
+  type RigVersion,
+} from "./types";
+
+/** Stands in for the repository's branch in `?from=` and `?to=` */
+export const LATEST_REF = "latest";
+
+/**
+ * One side of a comparison, resolved to the commit it reads files from.
+ */
+export interface CompareSide {
+  /** Version number, "latest", or the commit SHA as given */
+  ref: string;
+  /** Display label, e.g. "v1.2.0" or "main (latest)" */
+  label: string;
+  commitSha: string;
+  /** Published version the side refers to, if any */
+  version: RigVersion | null;
+}
+
+export type FileChangeStatus = "added" | "removed" | "modified" | "unchanged";
+
+export interface FileComparison {
+  name: string;
+  status: FileChangeStatus;
+  lines: DiffLine[];
+  /** Set when either side couldn't be fetched */
+  error?: string;
+}
+
+export interface InstallerActionChange {
+  label: string;
+  before: RigInstallerAction;
+  after: RigInstallerAction;
+}
+
+export interface InstallerActionComparison {
+  added: RigInstallerAction[];
+  removed: RigInstallerAction[];
+  /** Actions with the same label whose detail changed */
+  changed: InstallerActionChange[];
+}
+
+/**
+ * Resolve a `?from=` or `?to=` value: a published version number, "latest"
+ * for the branch's current commit, or a full commit SHA.
+ */
+export async function resolveCompareSide(
+  rig: Rig,
+  versions: RigVersion[],
+  ref: string
+): Promise<{ side: CompareSide; error?: undefined } | { side?: undefined; error: string }> {
+  if (ref === LATEST_REF) {
+    const commit = await resolveCommitSha(rig.repository);
+    if (commit.error !== undefined) {
+      return { error: commit.error };
+    }
+    return {
+      side: {
+        ref,
+        label: `${rig.repository.branch} (latest)`,
+        commitSha: commit.sha,
+        version: null,
+      },
+    };
+  }
+
+  const version = versions.find((v) => v.version === ref);
+  if (version) {
+    return {
+      side: { ref, label: `v${version.version}`, commitSha: version.commitSha, version },
+    };
+  }
+
+  if (/^[0-9a-f]{40}$/.test(ref)) {
+    return { side: { ref, label: ref.slice(0, 7), commitSha: ref, version: null } };
+  }
+
+  return { error: `Unknown version: ${ref}` };
+}
+
+/**
+ * config.json at one side of a comparison. Published versions keep a
+ * snapshot, so only other commits need fetching.
+ */
+export async function loadCompareConfig(
+  rig: Rig,
+  side: CompareSide
+): Promise<RigConfig | null> {
+  if (side.version) return side.version.config;
+
+  const { config } = await loadRigConfig(rig.repository, side.commitSha);
+  return config;
+}
+
+/**
+ * Files to compare: config.json, the install scripts, and every file either
+ * side's config.json lists as part of the rig.
+ */
+export function getComparedFileNames(
+  fromConfig: RigConfig | null,
+  toConfig: RigConfig | null
+): string[] {
+  const names = ["config.json", ...getViewableFileNames(fromConfig?.files)];
+  for (const name of getViewableFileNames(toConfig?.files)) {
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Fetch each file at both commits and diff them. Files missing from both
+ * sides are left out.
+ */
+export async function compareRigFiles(
+  rig: Rig,
+  fromSha: string,
+  toSha: string,
+  fileNames: string[]
+): Promise<FileComparison[]> {
+  const comparisons = await Promise.all(
+    fileNames.map(async (name): Promise<FileComparison | null> => {
+      const [before, after] = await Promise.all([
+        fetchRigFile(rig.repository, name, fromSha),
+        fetchRigFile(rig.repository, name, toSha),
+      ]);
+
+      const error = before.error ?? after.error;
+      if (error !== undefined) {
+        return { name, status: "modified", lines: [], error };
+      }
+      if (before.content === null && after.content === null) return null;
+
+      const lines = diffLines(
+        splitLines(before.content ?? ""),
+        splitLines(after.content ?? "")
+      );
+      const status: FileChangeStatus =
+        before.content === null
+          ? "added"
+          : after.content === null
+            ? "removed"
+            : before.content === after.content
+              ? "unchanged"
+              : "modified";
+
+      return { name, status, lines };
+    })
+  );
+
+  return comparisons.filter((comparison) => comparison !== null);
+}
+
+/**
+ * Compare two lists of installer actions by label.
+ */
+export function compareInstallerActions(
+  before: RigInstallerAction[],
+  after: RigInstallerAction[]
+): InstallerActionComparison {
+  const beforeByLabel = new Map(before.map((action) => [action.label, action]));
+  const afterByLabel = new Map(after.map((action) => [action.label, action]));
+
+  const changed: InstallerActionChange[] = [];
+  for (const action of after) {
+    const previous = beforeByLabel.get(action.label);
+    if (previous && previous.detail !== action.detail) {
+      changed.push({ label: action.label, before: previous, after: action });
+    }
+  }
+
+  return {
+    added: after.filter((action) => !beforeByLabel.has(action.label)),
+    removed: before.filter((action) => !afterByLabel.has(action.label)),
+    changed,
+  };
+}
@@ -0,0 +1,167 @@
+import { db } from "@/lib/db";
+import { rigs } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getProvider, isAllowedUrl } from "./providers";
+import {
+  buildInstallCommands,
+  loadRigConfig,
+  type ConsistencyIssue,
+  type Rig,
+  type RigConfig,
+  type RigRepository,
+} from "./types";
+
+/**
+ * Whether a URL resolves, or null if it couldn't be reached at all. Some hosts
+ * reject HEAD, so those fall back to GET.
+ */
+async function urlExists(url: string): Promise<boolean | null> {
+  try {
+    let response = await fetch(url, { method: "HEAD", cache: "no-store" });
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, { cache: "no-store" });
+    }
+    return response.ok;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Raw URL of a path relative to the repository root. config.json lists file
+ * paths from the root, not from the rig's folder.
+ */
+function getRawRepoUrl(repo: RigRepository, path: string): string {
+  return `${getProvider(repo).rawBaseUrl(repo, repo.branch)}/${path.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Compare a rig's config.json with the repository it's served from and with
+ * its catalog entry. Files are checked on the rig's branch; URLs that can't
+ * be reached are skipped rather than reported, as are upstream URLs outside
+ * the Git hosts the server may request (see isAllowedUrl).
+ */
+export async function checkRigConsistency(
+  rig: Pick<Rig, "slug" | "repository">,
+  config: RigConfig
+): Promise<ConsistencyIssue[]> {
+  const issues: ConsistencyIssue[] = [];
+  const repo = rig.repository;
+
+  if (config.slug !== rig.slug) {
+    issues.push({
+      check: "slug-mismatch",
+      field: "slug",
+      message: `config.json has slug "${config.slug}", but the rig is listed as "${rig.slug}"`,
+    });
+  }
+
+  const configProvider = getProvider(config.repository).id;
+  if (configProvider !== getProvider(repo).id) {
+    issues.push({
+      check: "repository-mismatch",
+      field: "repository.provider",
+      message: `config.json has repository provider "${configProvider}", but the rig is served from "${getProvider(repo).id}"`,
+    });
+  } else if ((config.repository.host ?? "") !== (repo.host ?? "")) {
+    issues.push({
+      check: "repository-mismatch",
+      field: "repository.host",
+      message: `config.json has repository host "${config.repository.host ?? ""}", but the rig is served from "${repo.host ?? ""}"`,
+    });
+  }
+
+  for (const key of ["owner", "name", "branch", "path"] as const) {
+    const configValue = config.repository[key];
+    const same =
+      key === "owner" || key === "name"
+        ? configValue.toLowerCase() === repo[key].toLowerCase()
+        : configValue === repo[key];
+    if (!same) {
+      issues.push({
+        check: "repository-mismatch",
+        field: `repository.${key}`,
+        message: `config.json has repository ${key} "${configValue}", but the rig is served from "${repo[key]}"`,
+      });
+    }
+  }
+
+  const expected = buildInstallCommands(repo);
+  for (const installer of ["bash", "powershell"] as const) {
+    if (config.install[installer] !== expected[installer]) {
+      issues.push({
+        check: "install-command",
+        field: `install.${installer}`,
+        message: `The ${installer === "bash" ? "Bash" : "PowerShell"} install command doesn't match the rig's repository. Expected: ${expected[installer]}`,
+      });
+    }
+  }
+
+  const fileChecks = await Promise.all(
+    config.files.map(async (file, i): Promise<ConsistencyIssue[]> => {
+      const found: ConsistencyIssue[] = [];
+      if (file.path && (await urlExists(getRawRepoUrl(repo, file.path))) === false) {
+        found.push({
+          check: "missing-file",
+          field: `files.${i}.path`,
+          message: `${file.name}: ${file.path} doesn't exist on ${repo.branch}`,
+        });
+      }
+      if (
+        file.upstreamUrl &&
+        isAllowedUrl(file.upstreamUrl) &&
+        (await urlExists(file.upstreamUrl)) === false
+      ) {
+        found.push({
+          check: "missing-upstream",
+          field: `files.${i}.upstreamUrl`,
+          message: `${file.name}: ${file.upstreamUrl} can't be downloaded`,
+        });
+      }
+      return found;
+    })
+  );
+  issues.push(...fileChecks.flat());
+
+  return issues;
+}
+
+/**
+ * Save the result of a consistency check on the rig.
+ */
+export async function recordConsistencyCheck(
+  rigId: number,
+  issues: ConsistencyIssue[]
+): Promise<void> {
+  await db
+    .update(rigs)
+    .set({ consistencyIssues: issues, consistencyCheckedAt: new Date() })
+    .where(eq(rigs.id, rigId));
+}
+
+/**
+ * Load the rig's current config.json, check it and record the result. A rig
+ * whose config.json can't be loaded isn't checked; the error is returned.
+ */
+export async function runConsistencyCheck(
+  rig: Rig
+): Promise<
+  | { issues: ConsistencyIssue[]; error?: undefined }
+  | { issues?: undefined; error: string }
+> {
+  const { config, issues, error } = await loadRigConfig(rig.repository, undefined, {
+    fresh: true,
+  });
+  if (!config) {
+    return {
+      error:
+        issues.length > 0
+          ? "config.json does not match the rig config schema"
+          : error ?? "config.json not found",
+    };
+  }
+
+  const found = await checkRigConsistency(rig, config);
+  await recordConsistencyCheck(rig.id, found);
+  return { issues: found };
+}
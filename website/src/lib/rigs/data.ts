@@ -1,22 +1,94 @@
 import { db } from "@/lib/db";
-import { rigs } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
-import type { Rig } from "./types";
+import { rigStars, rigs } from "@/lib/db/schema";
+import { eq, asc, desc, and, or, ilike, arrayContains, count, isNotNull, sql, type SQL } from "drizzle-orm";
+import type { Rig, RigStatus } from "./types";
+import type { RigCursor, RigSearchFilters } from "./validation";
+
+type RigRow = typeof rigs.$inferSelect;
+
+function toRig(row: RigRow): Rig {
+  return {
+    ...row,
+    category: row.category as Rig["category"],
+    difficulty: row.difficulty as Rig["difficulty"],
+    readiness: row.readiness as Rig["readiness"],
+    status: row.status as Rig["status"],
+    healthStatus: row.healthStatus as Rig["healthStatus"],
+    repository: row.repository as Rig["repository"],
+  };
+}
+
+/** Only approved rigs are visible in public listings */
+const isApproved = eq(rigs.status, "approved");
 
 /**
- * Fetch all rigs from the database.
+ * Fetch all approved rigs from the database. Maintenance scripts pass
+ * `includeUnapproved` to get pending and rejected rigs too.
  */
-export async function getAllRigs(): Promise<Rig[]> {
+export async function getAllRigs(
+  { includeUnapproved = false }: { includeUnapproved?: boolean } = {}
+): Promise<Rig[]> {
   const rows = await db
     .select()
     .from(rigs)
+    .where(includeUnapproved ? undefined : isApproved)
     .orderBy(desc(rigs.createdAt));
 
-  return rows.map((row) => ({
-    ...row,
-    category: row.category as Rig["category"],
-    repository: row.repository as Rig["repository"],
-  }));
+  return rows.map(toRig);
+}
+
+/**
+ * Fetch every rig submitted by a GitHub user, newest first. Pending and
+ * rejected rigs are only included when the submitter is looking at their own
+ * profile.
+ */
+export async function getRigsBySubmitter(
+  login: string,
+  { includeUnapproved = false }: { includeUnapproved?: boolean } = {}
+): Promise<Rig[]> {
+  const rows = await db
+    .select()
+    .from(rigs)
+    .where(
+      includeUnapproved
+        ? eq(rigs.submittedBy, login)
+        : and(eq(rigs.submittedBy, login), isApproved)
+    )
+    .orderBy(desc(rigs.createdAt));
+
+  return rows.map(toRig);
+}
+
+/**
+ * Fetch rigs in a moderation state for the admin review queue. Pending rigs
+ * come oldest first so the queue is worked in order; reviewed rigs come most
+ * recently reviewed first.
+ */
+export async function getRigsByStatus(status: RigStatus): Promise<Rig[]> {
+  const rows = await db
+    .select()
+    .from(rigs)
+    .where(eq(rigs.status, status))
+    .orderBy(
+      status === "pending" ? asc(rigs.createdAt) : desc(rigs.reviewedAt),
+      asc(rigs.id)
+    );
+
+  return rows.map(toRig);
+}
+
+/**
+ * Fetch the rigs a user has starred, most recently starred first.
+ */
+export async function getStarredRigs(login: string): Promise<Rig[]> {
+  const rows = await db
+    .select({ rig: rigs })
+    .from(rigStars)
+    .innerJoin(rigs, eq(rigStars.rigId, rigs.id))
+    .where(and(eq(rigStars.login, login), isApproved))
+    .orderBy(desc(rigStars.createdAt));
+
+  return rows.map((row) => toRig(row.rig));
 }
 
 /**
@@ -31,9 +103,182 @@ export async function getRigBySlug(slug: string): Promise<Rig | null> {
 
   if (!row) return null;
 
+  return toRig(row);
+}
+
+// ---------------------------------------------------------------------------
+// Catalog search
+// ---------------------------------------------------------------------------
+
+const searchDocument = sql`to_tsvector('english', ${rigs.name} || ' ' || ${rigs.tagline} || ' ' || ${rigs.description})`;
+
+/**
+ * Build the WHERE conditions for a catalog search. The catalog only ever
+ * shows approved rigs.
+ */
+export function buildRigSearchConditions(filters: RigSearchFilters): SQL[] {
+  const conditions: SQL[] = [isApproved];
+
+  if (filters.q) {
+    // Full-text match on name/tagline/description, plus a substring match on
+    // the name so partially typed names still find the rig
+    const escaped = filters.q.replace(/[\\%_]/g, (c) => `\\${c}`);
+    conditions.push(
+      or(
+        sql`${searchDocument} @@ websearch_to_tsquery('english', ${filters.q})`,
+        ilike(rigs.name, `%${escaped}%`)
+      )!
+    );
+  }
+  if (filters.category) {
+    conditions.push(eq(rigs.category, filters.category));
+  }
+  if (filters.tag.length > 0) {
+    conditions.push(arrayContains(rigs.tags, filters.tag));
+  }
+  if (filters.difficulty) {
+    conditions.push(eq(rigs.difficulty, filters.difficulty));
+  }
+  if (filters.status) {
+    conditions.push(eq(rigs.readiness, filters.status));
+  }
+
+  return conditions;
+}
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+const sortColumns = {
+  newest: { column: rigs.createdAt, direction: "desc", type: "timestamp" },
+  updated: { column: rigs.updatedAt, direction: "desc", type: "timestamp" },
+  name: { column: rigs.name, direction: "asc", type: "text" },
+  installs: { column: rigs.installCount, direction: "desc", type: "integer" },
+} as const;
+
+/**
+ * The sort key of a search. Relevance is the full-text rank against the
+ * query; names matched only by substring rank 0 and come last.
+ */
+function getSortKey(filters: RigSearchFilters): {
+  column: SQL | (typeof sortColumns)[keyof typeof sortColumns]["column"];
+  direction: "asc" | "desc";
+  type: string;
+} {
+  if (filters.sort === "relevance") {
+    return {
+      column: sql`ts_rank(${searchDocument}, websearch_to_tsquery('english', ${filters.q ?? ""}))`,
+      direction: "desc",
+      type: "real",
+    };
+  }
+  return sortColumns[filters.sort];
+}
+
+export function encodeRigCursor(cursor: RigCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+
+export interface RigPage {
+  rigs: Rig[];
+  /** Cursor for the next page, or null when this is the last page */
+  nextCursor: string | null;
+  /** Total number of rigs matching the filters, across all pages */
+  total: number;
+}
+
+/**
+ * List one page of the catalog using keyset pagination, so pages stay stable
+ * while rigs are added.
+ */
+export async function listRigs(
+  filters: RigSearchFilters,
+  { limit, cursor }: { limit: number; cursor?: RigCursor | null }
+): Promise<RigPage> {
+  const { column, direction, type } = getSortKey(filters);
+  const conditions = buildRigSearchConditions(filters);
+  const pageConditions = [...conditions];
+
+  if (cursor) {
+    // Row comparison keeps ties on the sort key ordered by id
+    pageConditions.push(
+      sql`(${column}, ${rigs.id}) ${sql.raw(direction === "desc" ? "<" : ">")} (cast(${cursor.value} as ${sql.raw(type)}), ${cursor.id})`
+    );
+  }
+
+  const order = direction === "desc" ? desc : asc;
+  const [[countResult], rows] = await Promise.all([
+    db
+      .select({ total: count() })
+      .from(rigs)
+      .where(and(...conditions)),
+    db
+      .select({
+        rig: rigs,
+        // Read the sort key back as text so timestamps keep full precision
+        cursorValue: sql<string>`${column}::text`,
+      })
+      .from(rigs)
+      .where(and(...pageConditions))
+      .orderBy(order(column), order(rigs.id))
+      .limit(limit + 1),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
   return {
-    ...row,
-    category: row.category as Rig["category"],
-    repository: row.repository as Rig["repository"],
+    rigs: pageRows.map((row) => toRig(row.rig)),
+    nextCursor:
+      hasMore && last
+        ? encodeRigCursor({ sort: filters.sort, value: last.cursorValue, id: last.rig.id })
+        : null,
+    total: countResult?.total ?? 0,
   };
 }
+
+export interface RigFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface RigFacets {
+  categories: RigFacetValue[];
+  tags: RigFacetValue[];
+  difficulties: RigFacetValue[];
+  statuses: RigFacetValue[];
+}
+
+/**
+ * Count approved rigs per category, tag, difficulty and readiness status
+ * across the whole catalog, for rendering facet filters.
+ */
+export async function getRigFacets(): Promise<RigFacets> {
+  const countBy = (column: typeof rigs.category | typeof rigs.difficulty | typeof rigs.readiness) =>
+    db
+      .select({ value: sql<string>`${column}`, count: count() })
+      .from(rigs)
+      .where(and(isApproved, isNotNull(column)))
+      .groupBy(column)
+      .orderBy(desc(count()), column);
+
+  const [categories, tags, difficulties, statuses] = await Promise.all([
+    countBy(rigs.category),
+    db
+      .select({
+        value: sql<string>`unnest(${rigs.tags})`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(rigs)
+      .where(isApproved)
+      .groupBy(sql`1`)
+      .orderBy(sql`2 desc`, sql`1`),
+    countBy(rigs.difficulty),
+    countBy(rigs.readiness),
+  ]);
+
+  return { categories, tags, difficulties, statuses };
+}
@@ -0,0 +1,76 @@
+import { getProvider } from "./providers";
+import { getRawFileUrl, type RigFile, type RigRepository } from "./types";
+
+/** Files larger than this are linked to rather than shown inline */
+const MAX_VIEWABLE_BYTES = 256 * 1024;
+
+/**
+ * Files to show in the inline viewer: the install scripts, then every file
+ * config.json lists as part of the rig. Upstream files aren't in the rig's
+ * repository, so they're left out.
+ */
+export function getViewableFileNames(files: RigFile[] | undefined): string[] {
+  const names = ["install.sh", "install.ps1"];
+  for (const file of files ?? []) {
+    if (file.path && !file.upstreamUrl && !names.includes(file.name)) {
+      names.push(file.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Element id of a file in the inline viewer; line anchors append `-L<n>`.
+ */
+export function fileAnchorId(fileName: string): string {
+  return `file-${fileName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+}
+
+/**
+ * Fetch a text file from the rig's folder at `ref`. Content is null if the
+ * file doesn't exist. Files at a commit SHA never change, so those are cached
+ * indefinitely; branch refs are revalidated. Local files are never cached.
+ */
+export async function fetchRigFile(
+  repo: RigRepository,
+  fileName: string,
+  ref: string = repo.branch
+): Promise<
+  | { content: string | null; error?: undefined }
+  | { content?: undefined; error: string }
+> {
+  const immutable = /^[0-9a-f]{40}$/.test(ref);
+
+  let response: Response;
+  try {
+    response = await fetch(
+      getRawFileUrl(repo, fileName, ref),
+      !getProvider(repo).cacheable
+        ? { cache: "no-store" }
+        : immutable
+          ? { cache: "force-cache" }
+          : { next: { revalidate: 300 } } // Cache for 5 minutes
+    );
+  } catch {
+    return { error: `Failed to reach ${getProvider(repo).label}` };
+  }
+
+  if (response.status === 404) {
+    return { content: null };
+  }
+  if (!response.ok) {
+    return { error: `Failed to fetch ${fileName}: ${response.status} ${response.statusText}` };
+  }
+
+  const length = Number(response.headers.get("content-length"));
+  if (length > MAX_VIEWABLE_BYTES) {
+    return { error: `${fileName} is too large to show here` };
+  }
+
+  const content = await response.text();
+  if (content.length > MAX_VIEWABLE_BYTES) {
+    return { error: `${fileName} is too large to show here` };
+  }
+
+  return { content };
+}
@@ -0,0 +1,116 @@
+import { db } from "@/lib/db";
+import { rigHealthChecks, rigs } from "@/lib/db/schema";
+import { desc, eq, lt } from "drizzle-orm";
+import { loadRigConfig, type Rig, type RigHealthCheck, type RigHealthProblem, type RigHealthStatus } from "./types";
+import { validateRepository } from "./providers";
+import { INSTALL_SCRIPTS } from "./scripts";
+
+/** Health checks older than this are pruned after each scheduled run */
+const HEALTH_HISTORY_DAYS = 90;
+
+/**
+ * Check that a rig can still be installed: its repository, branch, folder and
+ * an install script still exist (otherwise it's broken), both install scripts
+ * its install commands download exist, and its config.json loads and
+ * validates (otherwise it's degraded). Returns an error instead when the host
+ * couldn't be reached or failed, for the repository or for config.json, since
+ * that says nothing about the rig.
+ */
+export async function checkRigHealth(
+  rig: Rig
+): Promise<
+  | { status: RigHealthStatus; problems: RigHealthProblem[]; error?: undefined }
+  | { status?: undefined; problems?: undefined; error: string }
+> {
+  const repo = rig.repository;
+  const repoCheck = await validateRepository(repo);
+  if (repoCheck.unavailable) {
+    return { error: repoCheck.error ?? "The repository's host is unavailable" };
+  }
+  if (!repoCheck.valid) {
+    return {
+      status: "broken",
+      problems: [{ check: "repository", message: repoCheck.error ?? "Repository check failed" }],
+    };
+  }
+
+  // The rig page offers a PowerShell and a Bash command, and each fails
+  // without its script
+  const problems: RigHealthProblem[] = INSTALL_SCRIPTS.filter(
+    (name) => !repoCheck.installScripts?.includes(name)
+  ).map((name) => ({
+    check: "install-script",
+    message: `${name} is missing, so the ${name === "install.sh" ? "Bash" : "PowerShell"} install command fails`,
+  }));
+
+  const { config, issues, error, unavailable } = await loadRigConfig(repo, undefined, { fresh: true });
+  if (unavailable) {
+    return { error: error ?? "The repository's host is unavailable" };
+  }
+  if (!config) {
+    problems.push({
+      check: "config",
+      message:
+        issues.length > 0
+          ? "config.json does not match the rig config schema"
+          : error ?? "config.json not found",
+    });
+  }
+
+  return { status: problems.length > 0 ? "degraded" : "healthy", problems };
+}
+
+/**
+ * Save a health check and copy its status onto the rig for badges.
+ */
+export async function recordHealthCheck(
+  rigId: number,
+  result: { status: RigHealthStatus; problems: RigHealthProblem[] }
+): Promise<void> {
+  const [check] = await db
+    .insert(rigHealthChecks)
+    .values({ rigId, status: result.status, problems: result.problems })
+    .returning();
+
+  await db
+    .update(rigs)
+    .set({ healthStatus: check.status, healthCheckedAt: check.checkedAt })
+    .where(eq(rigs.id, rigId));
+}
+
+/**
+ * Check a rig's health and record the result, unless the host was
+ * unavailable, in which case the rig keeps its previous status.
+ */
+export async function runHealthCheck(rig: Rig): ReturnType<typeof checkRigHealth> {
+  const result = await checkRigHealth(rig);
+  if (result.error === undefined) {
+    await recordHealthCheck(rig.id, result);
+  }
+  return result;
+}
+
+/**
+ * Fetch a rig's most recent health checks, newest first.
+ */
+export async function getHealthHistory(
+  rigId: number,
+  { limit = 20 }: { limit?: number } = {}
+): Promise<RigHealthCheck[]> {
+  const rows = await db
+    .select()
+    .from(rigHealthChecks)
+    .where(eq(rigHealthChecks.rigId, rigId))
+    .orderBy(desc(rigHealthChecks.checkedAt))
+    .limit(limit);
+
+  return rows.map((row) => ({ ...row, status: row.status as RigHealthStatus }));
+}
+
+/**
+ * Delete health checks older than the retention window.
+ */
+export async function pruneHealthChecks(): Promise<void> {
+  const cutoff = new Date(Date.now() - HEALTH_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  await db.delete(rigHealthChecks).where(lt(rigHealthChecks.checkedAt, cutoff));
+}
@@ -0,0 +1,316 @@
+import { db } from "@/lib/db";
+import { rigs } from "@/lib/db/schema";
+import { inArray } from "drizzle-orm";
+import { listCategories } from "./categories";
+import { checkRigConsistency } from "./consistency";
+import { autoApproveRig } from "./moderation";
+import {
+  getProvider,
+  validateRepository,
+  type ProviderRequestOptions,
+  type ProviderResult,
+} from "./providers";
+import { pinInstallScripts } from "./scripts";
+import { loadRigConfig, type RigConfig, type RigImportCandidate, type RigRepository } from "./types";
+import { repositoryPathSchema, submitRigSchema } from "./validation";
+import { publishRigVersion } from "./versions";
+
+/** Folders nested deeper than this aren't searched for rigs */
+const MAX_DEPTH = 4;
+/** Folders listed in one scan, so large repositories can't exhaust the API */
+const MAX_FOLDERS = 100;
+/** Rig folders fetched, pinned or checked at once, to stay inside host rate limits */
+const MAX_CONCURRENT = 5;
+
+type RigRow = typeof rigs.$inferSelect;
+
+/** A repository to import from; rig folders are found by scanning it */
+export type ImportRepository = Omit<RigRepository, "path">;
+
+/**
+ * Like Promise.all over `items`, but with at most MAX_CONCURRENT calls of `fn`
+ * in flight. Results keep the order of `items`.
+ */
+async function mapConcurrently<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  await Promise.all(
+    Array.from({ length: Math.min(MAX_CONCURRENT, items.length) }, async () => {
+      while (next < items.length) {
+        const i = next++;
+        results[i] = await fn(items[i]);
+      }
+    })
+  );
+  return results;
+}
+
+/**
+ * Find the rig folders of a repository: folders with a config.json and an
+ * install script (install.ps1 or install.sh). Rig folders aren't searched
+ * further. `truncated` is set when the scan stopped at MAX_FOLDERS.
+ */
+export async function discoverRigPaths(
+  repo: ImportRepository,
+  options: ProviderRequestOptions = {}
+): Promise<ProviderResult<{ paths: string[]; truncated: boolean }>> {
+  const provider = getProvider(repo);
+  const paths: string[] = [];
+  const queue = [""];
+  let listed = 0;
+
+  while (queue.length > 0 && listed < MAX_FOLDERS) {
+    const folder = queue.shift()!;
+    listed++;
+
+    const listing = await provider.listContents({ ...repo, path: folder }, folder, repo.branch, options);
+    if (listing.error !== undefined) {
+      // A folder removed mid-scan just has no rigs
+      if (folder && listing.status === 404) continue;
+      if (listing.status === 501) {
+        return { error: `${provider.label} repositories can't be scanned for rigs`, status: 501 };
+      }
+      return listing;
+    }
+
+    const fileNames = listing.data.map((entry) => entry.name);
+    if (
+      fileNames.includes("config.json") &&
+      (fileNames.includes("install.ps1") || fileNames.includes("install.sh"))
+    ) {
+      paths.push(folder);
+      continue;
+    }
+
+    const depth = folder.split("/").filter(Boolean).length;
+    if (depth < MAX_DEPTH) {
+      queue.push(
+        ...listing.data
+          .filter((entry) => entry.type === "dir" && !entry.name.startsWith(".") && entry.name !== "node_modules")
+          // The host reports the paths, so keep them inside the repository
+          .flatMap((entry) => {
+            const path = repositoryPathSchema.safeParse(entry.path);
+            return path.success && path.data ? [path.data] : [];
+          })
+      );
+    }
+  }
+
+  return { data: { paths, truncated: queue.length > 0 } };
+}
+
+/**
+ * Load and check one discovered rig folder. The rig's catalog entry comes
+ * from its config.json, so the config must load and pass the same checks as
+ * a submission.
+ */
+async function inspectRigFolder(
+  repo: ImportRepository,
+  path: string
+): Promise<{ candidate: RigImportCandidate; config: RigConfig | null }> {
+  const empty = { slug: null, name: null, tagline: null, category: null };
+  const { config, issues, error } = await loadRigConfig({ ...repo, path }, undefined, { fresh: true });
+  if (!config) {
+    return {
+      candidate: {
+        path,
+        ...empty,
+        error:
+          issues.length > 0
+            ? "config.json does not match the rig config schema"
+            : error ?? "config.json not found",
+        issues,
+      },
+      config: null,
+    };
+  }
+
+  const submission = submitRigSchema.safeParse({
+    name: config.name,
+    tagline: config.tagline,
+    description: config.description,
+    category: config.category,
+    repository: { ...repo, path },
+  });
+
+  return {
+    candidate: {
+      path,
+      slug: config.slug,
+      name: config.name,
+      tagline: config.tagline,
+      category: config.category,
+      error: submission.success
+        ? null
+        : submission.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; "),
+      issues: [],
+    },
+    config,
+  };
+}
+
+/**
+ * Flag inspected rigs that can't be created alongside each other: their
+ * category must exist, and their slug must be unused in the catalog and among
+ * `candidates`.
+ */
+async function flagConflicts(candidates: { candidate: RigImportCandidate }[]): Promise<void> {
+  const slugs = candidates.flatMap(({ candidate }) => (candidate.slug ? [candidate.slug] : []));
+  const [categories, taken] = await Promise.all([
+    listCategories(),
+    slugs.length > 0
+      ? db
+          .select({ slug: rigs.slug })
+          .from(rigs)
+          .where(inArray(rigs.slug, slugs))
+          .then((rows) => new Set(rows.map((row) => row.slug)))
+      : new Set<string>(),
+  ]);
+
+  for (const { candidate } of candidates) {
+    if (candidate.error || !candidate.slug) continue;
+    if (!categories.some((category) => category.slug === candidate.category)) {
+      candidate.error = `Unknown category "${candidate.category}"`;
+    } else if (taken.has(candidate.slug)) {
+      candidate.error = `A rig with the slug "${candidate.slug}" already exists`;
+    } else if (slugs.indexOf(candidate.slug) !== slugs.lastIndexOf(candidate.slug)) {
+      candidate.error = `Another rig in this repository also uses the slug "${candidate.slug}"`;
+    }
+  }
+}
+
+/**
+ * Scan a repository for rigs and check whether each can be imported: its
+ * config.json must be valid, its category must exist, and its slug must be
+ * unused in the catalog and in the rest of the repository.
+ */
+export async function previewRigImport(
+  repo: ImportRepository,
+  options: ProviderRequestOptions = {}
+): Promise<
+  | {
+      candidates: { candidate: RigImportCandidate; config: RigConfig | null }[];
+      truncated: boolean;
+      error?: undefined;
+      status?: undefined;
+    }
+  | { candidates?: undefined; truncated?: undefined; error: string; status: number }
+> {
+  const discovered = await discoverRigPaths(repo, options);
+  if (discovered.error !== undefined) {
+    return { error: discovered.error, status: discovered.status };
+  }
+
+  const candidates = await mapConcurrently(discovered.data.paths, (path) =>
+    inspectRigFolder(repo, path)
+  );
+  await flagConflicts(candidates);
+
+  return { candidates, truncated: discovered.data.truncated };
+}
+
+/**
+ * Create the rigs in the chosen folders of a repository. Only those folders
+ * are checked again, not the whole repository, and each must pass the
+ * preview's checks. The rigs are inserted in a single transaction, so either
+ * all of them are created or none are. Their initial versions and
+ * auto-approval follow the insert one rig at a time, as for a single
+ * submission; a rig whose version can't be recorded stays created, pending
+ * review.
+ */
+export async function importRigs(
+  repo: ImportRepository,
+  paths: string[],
+  submitter: { login: string; image: string | null },
+  options: ProviderRequestOptions = {}
+): Promise<
+  | { rigs: RigRow[]; error?: undefined; status?: undefined }
+  | { rigs?: undefined; error: string; status: number }
+> {
+  const inspected = await mapConcurrently([...new Set(paths)], async (path) => {
+    // A rig folder needs an install script as well as config.json
+    const folder = await validateRepository({ ...repo, path }, options);
+    return { path, folder, ...(folder.valid ? await inspectRigFolder(repo, path) : {}) };
+  });
+
+  const unavailable = inspected.find(({ folder }) => folder.unavailable);
+  if (unavailable) {
+    return { error: unavailable.folder.error ?? "The repository's host is unavailable", status: 502 };
+  }
+  const checked = inspected.flatMap(({ candidate, config }) =>
+    candidate ? [{ candidate, config }] : []
+  );
+  await flagConflicts(checked);
+
+  const chosen = [];
+  for (const { path, candidate, config } of inspected) {
+    if (!candidate) {
+      return { error: `No rig was found in ${path || "the repository root"}`, status: 422 };
+    }
+    if (candidate.error || !config) {
+      return {
+        error: `${path || "The repository root"} can't be imported: ${candidate.error}`,
+        status: 422,
+      };
+    }
+    chosen.push({ path, config });
+  }
+
+  const values = await mapConcurrently(chosen, async ({ path, config }) => {
+    const repository: RigRepository = { ...repo, path };
+
+    // Best effort, as for a single submission -- the owner can pin later
+    const pin = await pinInstallScripts(repository);
+    if (pin.error !== undefined) {
+      console.error(`Failed to pin install scripts of ${config.slug}:`, pin.error);
+    }
+    const consistencyIssues = await checkRigConsistency({ slug: config.slug, repository }, config);
+
+    return {
+      slug: config.slug,
+      name: config.name,
+      tagline: config.tagline,
+      description: config.description,
+      category: config.category,
+      tags: config.tags,
+      difficulty: config.difficulty,
+      readiness: config.status,
+      repository,
+      pinnedCommitSha: pin.commitSha ?? null,
+      scriptHashes: pin.scriptHashes ?? null,
+      safetyReport: pin.safetyReport ?? null,
+      consistencyIssues,
+      consistencyCheckedAt: new Date(),
+      submittedBy: submitter.login,
+      submittedByAvatar: submitter.image,
+    };
+  });
+
+  // The neon-http driver can't hold a transaction open, but a batch runs as
+  // one transaction
+  const [first, ...rest] = values.map((value) => db.insert(rigs).values(value).returning());
+  const inserted = (await db.batch([first, ...rest])).flat();
+
+  const created: RigRow[] = [];
+  for (const rig of inserted) {
+    let status = rig.status;
+    try {
+      const published = await publishRigVersion(rig, {
+        changelog: "Initial release",
+        publishedBy: submitter.login,
+      });
+      if (published.error !== undefined) {
+        console.error(`Failed to record initial version of ${rig.slug}:`, published.error);
+      } else if (await autoApproveRig(rig.id, published.version.safetyReport)) {
+        status = "approved";
+      }
+    } catch (versionError) {
+      console.error(`Failed to record initial version of ${rig.slug}:`, versionError);
+    }
+    created.push({ ...rig, status });
+  }
+
+  return { rigs: created };
+}
@@ -0,0 +1,174 @@
+import { createHash } from "node:crypto";
+import { db } from "@/lib/db";
+import { categories as categoriesTable, rigVersions, rigs as rigsTable } from "@/lib/db/schema";
+import { count, eq, sql } from "drizzle-orm";
+import { listCategories } from "./categories";
+import { getAllRigs } from "./data";
+import { getSiteUrl } from "./providers";
+import { getLatestRigVersion } from "./versions";
+import {
+  RIG_INDEX_SCHEMA_VERSION,
+  buildInstallCommands,
+  buildVerifiedInstallCommands,
+  getRawFileUrl,
+  getRepoUrl,
+  loadRigConfig,
+  type Rig,
+  type RigIndex,
+  type RigIndexEntry,
+} from "./types";
+
+/**
+ * How long a built index is served before it's rebuilt even though the
+ * database hasn't changed, so edits to config.json show up. Matches how long
+ * config.json is cached.
+ */
+const INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+
+interface SerializedIndex {
+  fingerprint: string;
+  builtAt: number;
+  body: string;
+  etag: string;
+}
+
+/** The last index built */
+let builtIndex: SerializedIndex | null = null;
+
+async function toIndexEntry(rig: Rig, siteUrl: string): Promise<RigIndexEntry> {
+  const [{ config }, latestVersion] = await Promise.all([
+    loadRigConfig(rig.repository),
+    getLatestRigVersion(rig.id),
+  ]);
+
+  return {
+    slug: rig.slug,
+    name: rig.name,
+    tagline: rig.tagline,
+    description: rig.description,
+    category: rig.category,
+    tags: rig.tags,
+    difficulty: rig.difficulty,
+    readiness: rig.readiness,
+    submittedBy: rig.submittedBy,
+    installCount: rig.installCount,
+    starCount: rig.starCount,
+    createdAt: rig.createdAt.toISOString(),
+    updatedAt: rig.updatedAt.toISOString(),
+    repository: rig.repository,
+    urls: {
+      page: `${siteUrl}/rigs/${rig.slug}`,
+      repository: getRepoUrl(rig.repository),
+      config: getRawFileUrl(rig.repository, "config.json"),
+    },
+    install: buildInstallCommands(rig.repository),
+    verifiedInstall:
+      rig.pinnedCommitSha && rig.scriptHashes
+        ? {
+            commitSha: rig.pinnedCommitSha,
+            scriptHashes: rig.scriptHashes,
+            ...buildVerifiedInstallCommands(rig.repository, rig.pinnedCommitSha, rig.scriptHashes),
+          }
+        : null,
+    latestVersion: latestVersion
+      ? {
+          version: latestVersion.version,
+          commitSha: latestVersion.commitSha,
+          publishedAt: latestVersion.createdAt.toISOString(),
+        }
+      : null,
+    config,
+  };
+}
+
+/**
+ * Build the rig index. Page URLs use the configured site URL, so the index is
+ * the same whichever host it's requested through.
+ */
+export async function buildRigIndex(): Promise<RigIndex> {
+  const [rigs, categories] = await Promise.all([getAllRigs(), listCategories()]);
+  const siteUrl = getSiteUrl();
+
+  return {
+    schemaVersion: RIG_INDEX_SCHEMA_VERSION,
+    categories: categories.map(({ slug, label, description, icon }) => ({
+      slug,
+      label,
+      description,
+      icon,
+    })),
+    rigs: await Promise.all(rigs.map((rig) => toIndexEntry(rig, siteUrl))),
+  };
+}
+
+/**
+ * Summary of every database row the index is built from, in three aggregate
+ * queries. It changes whenever a listed rig, its versions or the categories
+ * change, so a cached index can be reused until it does.
+ */
+async function getRigIndexFingerprint(): Promise<string> {
+  const [[rigState], [versionState], [categoryState]] = await Promise.all([
+    db
+      .select({
+        rows: sql<string>`coalesce(md5(string_agg(${rigsTable.id} || ':' || ${rigsTable.updatedAt} || ':' || ${rigsTable.installCount} || ':' || ${rigsTable.starCount}, ',' order by ${rigsTable.id})), '')`,
+      })
+      .from(rigsTable)
+      .where(eq(rigsTable.status, "approved")),
+    db
+      .select({ count: count(), maxId: sql<string>`coalesce(max(${rigVersions.id}), 0)::text` })
+      .from(rigVersions),
+    db
+      .select({ count: count(), updatedAt: sql<string>`coalesce(max(${categoriesTable.updatedAt})::text, '')` })
+      .from(categoriesTable),
+  ]);
+
+  return [
+    rigState?.rows,
+    versionState?.count,
+    versionState?.maxId,
+    categoryState?.count,
+    categoryState?.updatedAt,
+  ].join("|");
+}
+
+/**
+ * The serialized index and its ETag. The index is only rebuilt when the
+ * database has changed or the last build is older than INDEX_MAX_AGE_MS, so
+ * polling with If-None-Match doesn't reload every rig's config.json.
+ */
+export async function getSerializedRigIndex(): Promise<{ body: string; etag: string }> {
+  const fingerprint = await getRigIndexFingerprint();
+  const cached = builtIndex;
+  if (
+    cached &&
+    cached.fingerprint === fingerprint &&
+    Date.now() - cached.builtAt < INDEX_MAX_AGE_MS
+  ) {
+    return cached;
+  }
+
+  const body = JSON.stringify(await buildRigIndex());
+  builtIndex = { fingerprint, builtAt: Date.now(), body, etag: getRigIndexETag(body) };
+  return builtIndex;
+}
+
+/**
+ * Strong ETag for a serialized index. The index has no generation timestamp,
+ * so the tag only changes when the content does.
+ */
+export function getRigIndexETag(body: string): string {
+  return `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches `etag`. Handles lists, `*` and weak
+ * validators, which compare equal to their strong form for GET requests.
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+
+  return ifNoneMatch
+    .split(",")
+    .some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto";
+import { db } from "@/lib/db";
+import { rigInstalls, rigs } from "@/lib/db/schema";
+import { and, count, eq, gte, sql } from "drizzle-orm";
+import type { RigInstallBreakdown, RigInstaller } from "./types";
+import type { InstallReportInput } from "./validation";
+
+/** Install reports accepted per anonymous client per window */
+const ANONYMOUS_REPORT_LIMIT = 10;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * The client's IP address as seen by the site's own proxy. Proxies append the
+ * address they received the request from to X-Forwarded-For, so only the last
+ * entry is trustworthy; earlier ones are whatever the client sent.
+ */
+export function getClientIp(headers: Headers): string {
+  return (
+    headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() ||
+    headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/**
+ * Hash a client's IP address so reports can be rate-limited without storing
+ * the address itself.
+ */
+export function hashClient(ip: string): string {
+  return createHash("sha256")
+    .update(`${process.env.AUTH_SECRET ?? ""}:${ip}`)
+    .digest("hex");
+}
+
+/**
+ * Whether an anonymous client has used up its report allowance. Returns the
+ * number of seconds until it may report again, or null if it is not limited.
+ */
+export async function getInstallReportRetryAfter(
+  clientHash: string
+): Promise<number | null> {
+  const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MS);
+  const [result] = await db
+    .select({
+      total: count(),
+      oldest: sql<Date | null>`min(${rigInstalls.createdAt})`.mapWith(rigInstalls.createdAt),
+    })
+    .from(rigInstalls)
+    .where(
+      and(
+        eq(rigInstalls.clientHash, clientHash),
+        gte(rigInstalls.createdAt, windowStart)
+      )
+    );
+
+  if (!result || result.total < ANONYMOUS_REPORT_LIMIT || !result.oldest) {
+    return null;
+  }
+
+  const resetAt = result.oldest.getTime() + RATE_LIMIT_WINDOW_MS;
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Record an install report and bump the rig's denormalized counters, in one
+ * transaction so the counters can't drift from the reports.
+ */
+export async function recordInstall(
+  rigId: number,
+  report: InstallReportInput,
+  { clientHash, reportedBy }: { clientHash: string | null; reportedBy: string | null }
+): Promise<void> {
+  await db.batch([
+    db.insert(rigInstalls).values({
+      rigId,
+      installer: report.installer,
+      installerVersion: report.installerVersion,
+      success: report.success,
+      clientHash,
+      reportedBy,
+    }),
+    db
+      .update(rigs)
+      .set(
+        report.success
+          ? { installCount: sql`${rigs.installCount} + 1` }
+          : { failedInstallCount: sql`${rigs.failedInstallCount} + 1` }
+      )
+      .where(eq(rigs.id, rigId)),
+  ]);
+}
+
+/**
+ * Count successful and failed installs per installer flavor.
+ */
+export async function getInstallBreakdown(
+  rigId: number
+): Promise<RigInstallBreakdown[]> {
+  const rows = await db
+    .select({
+      installer: rigInstalls.installer,
+      successes: sql<number>`count(*) filter (where ${rigInstalls.success})::int`,
+      failures: sql<number>`count(*) filter (where not ${rigInstalls.success})::int`,
+    })
+    .from(rigInstalls)
+    .where(eq(rigInstalls.rigId, rigId))
+    .groupBy(rigInstalls.installer)
+    .orderBy(rigInstalls.installer);
+
+  return rows.map((row) => ({
+    ...row,
+    installer: row.installer as RigInstaller,
+  }));
+}
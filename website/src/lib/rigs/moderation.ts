@@ -0,0 +1,59 @@
+import { db } from "@/lib/db";
+import { rigs } from "@/lib/db/schema";
+import { isAdmin } from "@/lib/admin";
+import { eq } from "drizzle-orm";
+import { hasBlockingFindings } from "./scanner";
+import type { ScriptSafetyReport } from "./types";
+import type { ReviewRigInput } from "./validation";
+
+/**
+ * Whether a viewer may see a rig. Approved rigs are public; pending and
+ * rejected rigs are visible only to their submitter and to admins.
+ */
+export function canViewRig(
+  rig: { status: string; submittedBy: string },
+  login: string | null | undefined
+): boolean {
+  return rig.status === "approved" || login === rig.submittedBy || isAdmin(login);
+}
+
+/**
+ * Record an admin's decision on a rig.
+ */
+export async function reviewRig(
+  rigId: number,
+  decision: ReviewRigInput,
+  reviewedBy: string
+): Promise<void> {
+  await db
+    .update(rigs)
+    .set({
+      status: decision.status,
+      rejectionReason: decision.status === "rejected" ? decision.reason : null,
+      reviewedBy,
+      reviewedAt: new Date(),
+    })
+    .where(eq(rigs.id, rigId));
+}
+
+/**
+ * Approve a new submission without waiting for an admin, when the site opts
+ * in with AUTO_APPROVE_RIGS=true. Only rigs whose install scripts were scanned
+ * and have no high-severity findings qualify; everything else stays pending.
+ * Returns whether the rig was approved.
+ */
+export async function autoApproveRig(
+  rigId: number,
+  report: ScriptSafetyReport | null
+): Promise<boolean> {
+  if (process.env.AUTO_APPROVE_RIGS !== "true" || !report || hasBlockingFindings(report)) {
+    return false;
+  }
+
+  await db
+    .update(rigs)
+    .set({ status: "approved", reviewedBy: null, reviewedAt: new Date() })
+    .where(eq(rigs.id, rigId));
+
+  return true;
+}
@@ -0,0 +1,620 @@
+import { githubRequest, rateLimitMessage, type GitHubRateLimit } from "../github";
+import type { InstallScriptName, RepositoryProviderId, RigRepository } from "./types";
+
+/** A file or folder in a repository listing */
+export interface RepositoryEntry {
+  name: string;
+  type: "file" | "dir";
+  /** Path from the repository root */
+  path: string;
+}
+
+export interface ProviderRequestOptions {
+  /** The signed-in user's GitHub OAuth token; other hosts are called anonymously */
+  token?: string | null;
+}
+
+/**
+ * Result of a call to a host's API. `status` is the HTTP status to report for
+ * an error: 404 when the repository, branch or path doesn't exist, 422 when a
+ * path isn't a folder, 429 when rate limited, 501 when the host has no API
+ * for it and 502 when the host failed or couldn't be reached.
+ */
+export type ProviderResult<T> =
+  | { data: T; error?: undefined; status?: undefined; rateLimit?: GitHubRateLimit | null }
+  | { data?: undefined; error: string; status: number; rateLimit?: GitHubRateLimit | null };
+
+/**
+ * A Git host rigs can be served from. URL builders return the repository at
+ * a ref; callers append paths from the repository root.
+ */
+export interface RepositoryProvider {
+  id: RepositoryProviderId;
+  label: string;
+  /** Host used when the repository doesn't set one; null if a host is required */
+  defaultHost: string | null;
+  /**
+   * Whether the provider's URLs follow the repository's host, so it can be on
+   * a self-hosted server listed in GIT_HOSTS rather than defaultHost
+   */
+  selfHosted: boolean;
+  /** Whether raw files may be cached; local files change as they're edited */
+  cacheable: boolean;
+  /** Base of raw file URLs, e.g. https://raw.githubusercontent.com/owner/name/main */
+  rawBaseUrl(repo: RigRepository, ref: string): string;
+  /** Base of folder browse URLs */
+  treeBaseUrl(repo: RigRepository, ref: string): string;
+  /** Base of file browse URLs */
+  blobBaseUrl(repo: RigRepository, ref: string): string;
+  commitUrl(repo: RigRepository, sha: string): string;
+  /** Page comparing two commits, or null if the host has no such page */
+  compareUrl(repo: RigRepository, from: string, to: string): string | null;
+  listBranches(repo: RigRepository, options?: ProviderRequestOptions): Promise<ProviderResult<string[]>>;
+  /** List a folder, given by its path from the repository root */
+  listContents(
+    repo: RigRepository,
+    path: string,
+    ref: string,
+    options?: ProviderRequestOptions
+  ): Promise<ProviderResult<RepositoryEntry[]>>;
+  /** Resolve the repository's branch to the commit SHA it points at */
+  resolveCommitSha(repo: RigRepository, options?: ProviderRequestOptions): Promise<ProviderResult<string>>;
+}
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+function hostOf(repo: RigRepository, provider: RepositoryProvider): string {
+  return repo.host ?? provider.defaultHost ?? "";
+}
+
+/**
+ * GET JSON from a host's API, mapping failures to provider errors.
+ */
+async function fetchJson<T>(url: string, label: string): Promise<ProviderResult<T>> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: { Accept: "application/json", "User-Agent": "ai-foundry" },
+      cache: "no-store",
+    });
+  } catch {
+    return { error: `Failed to reach ${label}. Please try again.`, status: 502 };
+  }
+
+  if (res.status === 404) {
+    return { error: "Repository or path not found", status: 404 };
+  }
+  if (res.status === 429) {
+    return { error: `${label} is limiting requests right now. Please try again in a minute.`, status: 429 };
+  }
+  if (!res.ok) {
+    return { error: `${label} API error: ${res.status}`, status: 502 };
+  }
+  if (!res.headers.get("content-type")?.includes("json")) {
+    return { error: "The specified path is not a directory", status: 422 };
+  }
+  return { data: (await res.json()) as T };
+}
+
+const github: RepositoryProvider = {
+  id: "github",
+  label: "GitHub",
+  cacheable: true,
+  defaultHost: "github.com",
+  selfHosted: false,
+  rawBaseUrl: (repo, ref) => `https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${ref}`,
+  treeBaseUrl: (repo, ref) => `https://github.com/${repo.owner}/${repo.name}/tree/${ref}`,
+  blobBaseUrl: (repo, ref) => `https://github.com/${repo.owner}/${repo.name}/blob/${ref}`,
+  commitUrl: (repo, sha) => `https://github.com/${repo.owner}/${repo.name}/commit/${sha}`,
+  compareUrl: (repo, from, to) => `https://github.com/${repo.owner}/${repo.name}/compare/${from}...${to}`,
+
+  async listBranches(repo, { token } = {}) {
+    const res = await githubRequest<{ name: string }[]>(
+      `/repos/${repo.owner}/${repo.name}/branches?per_page=100`,
+      { token }
+    );
+    if (res.rateLimited) return { error: rateLimitMessage(res.rateLimit), status: 429, rateLimit: res.rateLimit };
+    if (res.status === 404) return { error: "Repository not found", status: 404, rateLimit: res.rateLimit };
+    if (!res.ok) return { error: `GitHub API error: ${res.status}`, status: 502, rateLimit: res.rateLimit };
+    return { data: res.data.map((branch) => branch.name), rateLimit: res.rateLimit };
+  },
+
+  async listContents(repo, path, ref, { token } = {}) {
+    const res = await githubRequest<{ name: string; type: string; path: string }[] | { type: string }>(
+      `/repos/${repo.owner}/${repo.name}/contents/${path}?ref=${encodeURIComponent(ref)}`,
+      { token }
+    );
+    if (res.rateLimited) return { error: rateLimitMessage(res.rateLimit), status: 429, rateLimit: res.rateLimit };
+    if (res.status === 404) return { error: "Repository or path not found", status: 404, rateLimit: res.rateLimit };
+    if (!res.ok) return { error: `GitHub API error: ${res.status}`, status: 502, rateLimit: res.rateLimit };
+    if (!Array.isArray(res.data)) {
+      return { error: "The specified path is not a directory", status: 422, rateLimit: res.rateLimit };
+    }
+    return {
+      data: res.data.map((entry) => ({
+        name: entry.name,
+        type: entry.type === "dir" ? "dir" : "file",
+        path: entry.path,
+      })),
+      rateLimit: res.rateLimit,
+    };
+  },
+
+  async resolveCommitSha(repo, { token } = {}) {
+    const res = await githubRequest<string>(
+      `/repos/${repo.owner}/${repo.name}/commits/${encodeURIComponent(repo.branch)}`,
+      // Ask for just the SHA rather than the full commit object
+      { token, accept: "application/vnd.github.sha" }
+    );
+    if (res.status === 404 || res.status === 422) {
+      return { error: `Branch not found: ${repo.owner}/${repo.name}@${repo.branch}`, status: 404 };
+    }
+    if (res.rateLimited) return { error: rateLimitMessage(res.rateLimit), status: 429, rateLimit: res.rateLimit };
+    if (!res.ok) return { error: `GitHub API error: ${res.status}`, status: 502 };
+    return { data: res.data.trim() };
+  },
+};
+
+// GitLab.com or a self-managed GitLab. Owners may be nested groups.
+const gitlab: RepositoryProvider = {
+  id: "gitlab",
+  label: "GitLab",
+  cacheable: true,
+  defaultHost: "gitlab.com",
+  selfHosted: true,
+  rawBaseUrl: (repo, ref) => `https://${hostOf(repo, gitlab)}/${repo.owner}/${repo.name}/-/raw/${ref}`,
+  treeBaseUrl: (repo, ref) => `https://${hostOf(repo, gitlab)}/${repo.owner}/${repo.name}/-/tree/${ref}`,
+  blobBaseUrl: (repo, ref) => `https://${hostOf(repo, gitlab)}/${repo.owner}/${repo.name}/-/blob/${ref}`,
+  commitUrl: (repo, sha) => `https://${hostOf(repo, gitlab)}/${repo.owner}/${repo.name}/-/commit/${sha}`,
+  compareUrl: (repo, from, to) =>
+    `https://${hostOf(repo, gitlab)}/${repo.owner}/${repo.name}/-/compare/${from}...${to}`,
+
+  async listBranches(repo) {
+    const result = await fetchJson<{ name: string }[]>(
+      `${gitlabProjectApi(repo)}/repository/branches?per_page=100`,
+      "GitLab"
+    );
+    return result.error !== undefined ? result : { data: result.data.map((branch) => branch.name) };
+  },
+
+  async listContents(repo, path, ref) {
+    const params = new URLSearchParams({ ref, per_page: "100" });
+    if (path) params.set("path", path);
+    const result = await fetchJson<{ name: string; type: string; path: string }[]>(
+      `${gitlabProjectApi(repo)}/repository/tree?${params}`,
+      "GitLab"
+    );
+    if (result.error !== undefined) return result;
+    return {
+      data: result.data.map((entry) => ({
+        name: entry.name,
+        type: entry.type === "tree" ? "dir" : "file",
+        path: entry.path,
+      })),
+    };
+  },
+
+  async resolveCommitSha(repo) {
+    const result = await fetchJson<{ commit: { id: string } }>(
+      `${gitlabProjectApi(repo)}/repository/branches/${encodeURIComponent(repo.branch)}`,
+      "GitLab"
+    );
+    if (result.status === 404) {
+      return { error: `Branch not found: ${repo.owner}/${repo.name}@${repo.branch}`, status: 404 };
+    }
+    return result.error !== undefined ? result : { data: result.data.commit.id };
+  },
+};
+
+function gitlabProjectApi(repo: RigRepository): string {
+  return `https://${hostOf(repo, gitlab)}/api/v4/projects/${encodeURIComponent(`${repo.owner}/${repo.name}`)}`;
+}
+
+// Bitbucket Cloud. The owner is the workspace.
+const bitbucket: RepositoryProvider = {
+  id: "bitbucket",
+  label: "Bitbucket",
+  cacheable: true,
+  defaultHost: "bitbucket.org",
+  selfHosted: false,
+  rawBaseUrl: (repo, ref) => `https://bitbucket.org/${repo.owner}/${repo.name}/raw/${ref}`,
+  treeBaseUrl: (repo, ref) => `https://bitbucket.org/${repo.owner}/${repo.name}/src/${ref}`,
+  blobBaseUrl: (repo, ref) => `https://bitbucket.org/${repo.owner}/${repo.name}/src/${ref}`,
+  commitUrl: (repo, sha) => `https://bitbucket.org/${repo.owner}/${repo.name}/commits/${sha}`,
+  compareUrl: () => null,
+
+  async listBranches(repo) {
+    const result = await fetchJson<{ values: { name: string }[] }>(
+      `${bitbucketRepoApi(repo)}/refs/branches?pagelen=100`,
+      "Bitbucket"
+    );
+    return result.error !== undefined ? result : { data: result.data.values.map((branch) => branch.name) };
+  },
+
+  async listContents(repo, path, ref) {
+    const result = await fetchJson<{ values: { type: string; path: string }[] }>(
+      `${bitbucketRepoApi(repo)}/src/${encodeURIComponent(ref)}/${path ? `${path}/` : ""}?pagelen=100`,
+      "Bitbucket"
+    );
+    if (result.error !== undefined) return result;
+    return {
+      data: result.data.values.map((entry) => ({
+        name: entry.path.split("/").pop() ?? entry.path,
+        type: entry.type === "commit_directory" ? "dir" : "file",
+        path: entry.path,
+      })),
+    };
+  },
+
+  async resolveCommitSha(repo) {
+    const result = await fetchJson<{ target: { hash: string } }>(
+      `${bitbucketRepoApi(repo)}/refs/branches/${encodeURIComponent(repo.branch)}`,
+      "Bitbucket"
+    );
+    if (result.status === 404) {
+      return { error: `Branch not found: ${repo.owner}/${repo.name}@${repo.branch}`, status: 404 };
+    }
+    return result.error !== undefined ? result : { data: result.data.target.hash };
+  },
+};
+
+function bitbucketRepoApi(repo: RigRepository): string {
+  return `https://api.bitbucket.org/2.0/repositories/${repo.owner}/${repo.name}`;
+}
+
+// Any other host serving Gitea-style URLs (Gitea, Forgejo, Gogs). There's no
+// common API, so branches and folders can't be listed or commits resolved.
+const git: RepositoryProvider = {
+  id: "git",
+  label: "Git",
+  cacheable: true,
+  defaultHost: null,
+  selfHosted: true,
+  rawBaseUrl: (repo, ref) => `https://${hostOf(repo, git)}/${repo.owner}/${repo.name}/raw/${ref}`,
+  treeBaseUrl: (repo, ref) => `https://${hostOf(repo, git)}/${repo.owner}/${repo.name}/src/${ref}`,
+  blobBaseUrl: (repo, ref) => `https://${hostOf(repo, git)}/${repo.owner}/${repo.name}/src/${ref}`,
+  commitUrl: (repo, sha) => `https://${hostOf(repo, git)}/${repo.owner}/${repo.name}/commit/${sha}`,
+  compareUrl: () => null,
+
+  async listBranches() {
+    return { error: "Branches can't be listed on this host", status: 501 };
+  },
+  async listContents() {
+    return { error: "Folders can't be listed on this host", status: 501 };
+  },
+  async resolveCommitSha() {
+    return { error: "Commits can't be resolved on this host", status: 501 };
+  },
+};
+
+/** Route that serves LOCAL_RIGS_DIR; see app/api/local-files/[[...path]] */
+export const LOCAL_FILES_PATH = "/api/local-files";
+
+/** The only branch of a local directory */
+export const LOCAL_BRANCH = "local";
+
+/**
+ * Public URL of this site, without a trailing slash, from NEXT_PUBLIC_SITE_URL.
+ * Use it instead of a request's Host header, which the client controls.
+ */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000").replace(/\/+$/, "");
+}
+
+function localFilesUrl(): string {
+  return `${getSiteUrl()}${LOCAL_FILES_PATH}`;
+}
+
+// A directory on the server, for developing rigs offline. Files are served by
+// this site, so install commands and listings go through its local files
+// route; refs are ignored since there's no history.
+const file: RepositoryProvider = {
+  id: "file",
+  label: "Local files",
+  cacheable: false,
+  defaultHost: null,
+  selfHosted: false,
+  rawBaseUrl: () => localFilesUrl(),
+  treeBaseUrl: () => localFilesUrl(),
+  blobBaseUrl: () => localFilesUrl(),
+  commitUrl: () => localFilesUrl(),
+  compareUrl: () => null,
+
+  async listBranches() {
+    return { data: [LOCAL_BRANCH] };
+  },
+
+  async listContents(_repo, path) {
+    const result = await fetchJson<{ contents: RepositoryEntry[] }>(
+      path ? `${localFilesUrl()}/${path}` : localFilesUrl(),
+      "the local files route"
+    );
+    return result.error !== undefined ? result : { data: result.data.contents };
+  },
+
+  async resolveCommitSha() {
+    return { error: "Local files have no commits", status: 501 };
+  },
+};
+
+export const REPOSITORY_PROVIDERS: Record<RepositoryProviderId, RepositoryProvider> = {
+  github,
+  gitlab,
+  bitbucket,
+  git,
+  file,
+};
+
+/**
+ * The provider a repository is hosted on. Rigs from before other hosts were
+ * supported have no provider and are on GitHub.
+ */
+export function getProvider(repo: Pick<RigRepository, "provider">): RepositoryProvider {
+  return REPOSITORY_PROVIDERS[repo.provider ?? "github"];
+}
+
+/**
+ * Whether the server may call the repository's host. GitHub, GitLab.com and
+ * Bitbucket Cloud are always allowed; self-managed GitLab and other Git hosts
+ * must be listed in GIT_HOSTS, so submissions can't point requests at internal
+ * addresses. GitHub and Bitbucket URLs always go to their own sites, so other
+ * hosts are refused for them. Local files are only served in development.
+ */
+export function isAllowedHost(repo: Pick<RigRepository, "provider" | "host">): boolean {
+  const provider = getProvider(repo);
+  if (provider.id === "file") {
+    return getLocalRigsDir() !== null;
+  }
+  if (!repo.host || repo.host === provider.defaultHost) {
+    return provider.defaultHost !== null;
+  }
+  return provider.selfHosted && allowedGitHosts().includes(repo.host.toLowerCase());
+}
+
+function allowedGitHosts(): string[] {
+  return (process.env.GIT_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Sites and raw-file hosts of the hosted providers */
+const HOSTED_URL_HOSTS = ["github.com", "raw.githubusercontent.com", "gitlab.com", "bitbucket.org"];
+
+/**
+ * Whether the server may request a URL taken from a rig, such as an upstream
+ * download in config.json: http(s) on a hosted provider's site or raw-file
+ * host, or on a host listed in GIT_HOSTS. Anything else could point requests
+ * at internal addresses.
+ */
+export function isAllowedUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return false;
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  return HOSTED_URL_HOSTS.includes(hostname) || allowedGitHosts().includes(hostname);
+}
+
+/**
+ * The folder local rigs are served from, or null when they're disabled. They
+ * are for offline development, so a production build never serves them, even
+ * if LOCAL_RIGS_DIR is set.
+ */
+export function getLocalRigsDir(): string | null {
+  if (process.env.NODE_ENV === "production") return null;
+  return process.env.LOCAL_RIGS_DIR || null;
+}
+
+/**
+ * Why isAllowedHost refused a repository, for error messages.
+ */
+export function hostNotAllowedMessage(repo: Pick<RigRepository, "provider" | "host">): string {
+  const provider = getProvider(repo);
+  if (provider.id === "file") {
+    return "Local rigs aren't enabled on this server. They're served in development when LOCAL_RIGS_DIR is set.";
+  }
+  if (repo.host && !provider.selfHosted) {
+    return `${provider.label} repositories can only be on ${provider.defaultHost}`;
+  }
+  return repo.host
+    ? `${repo.host} isn't an allowed Git host. Ask an admin to add it to GIT_HOSTS.`
+    : `${provider.label} repositories need a host`;
+}
+
+/** A repository recognized from user input, before branch and path are chosen */
+export type ParsedRepository = Pick<RigRepository, "owner" | "name" | "host"> & {
+  provider: RepositoryProviderId;
+};
+
+/**
+ * Recognize a repository from a GitHub, GitLab, Bitbucket or other Git host
+ * URL (browse, clone or SSH), from GitHub's owner/repo shorthand, or "local"
+ * for the server's local rigs directory.
+ */
+export function parseRepoInput(input: string): ParsedRepository | null {
+  const trimmed = input.trim();
+
+  if (trimmed === "local" || trimmed.startsWith("file:")) {
+    return { provider: "file", owner: "local", name: "files" };
+  }
+
+  // owner/repo is GitHub; GitHub owners can't contain dots, so a dotted
+  // first segment is a host
+  const slashMatch = trimmed.match(/^([^/.\s:]+)\/([^/\s]+)$/);
+  if (slashMatch) {
+    return { provider: "github", owner: slashMatch[1], name: slashMatch[2].replace(/\.git$/, "") };
+  }
+
+  // git@host:owner/repo.git
+  const sshMatch = trimmed.match(/^[\w.-]+@([^:/\s]+):(.+)$/);
+  const hasScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed);
+  // Without a scheme, only a dotted first segment is taken as a host
+  if (!sshMatch && !hasScheme && !/^[^/]+\.[^/]+\//.test(trimmed)) return null;
+  const urlText = sshMatch
+    ? `https://${sshMatch[1]}/${sshMatch[2]}`
+    : hasScheme
+      ? trimmed
+      : `https://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(urlText);
+  } catch {
+    return null;
+  }
+
+  const host = url.host.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+  const repoName = (segment: string) => segment.replace(/\.git$/, "");
+
+  // GitLab puts "/-/" between the project and the page, and allows nested
+  // groups before it
+  const dashIndex = segments.indexOf("-");
+  if (host === "gitlab.com" || host.includes("gitlab") || dashIndex !== -1) {
+    const project = dashIndex === -1 ? segments : segments.slice(0, dashIndex);
+    if (project.length < 2) return null;
+    return {
+      provider: "gitlab",
+      ...(host === "gitlab.com" ? {} : { host }),
+      owner: project.slice(0, -1).join("/"),
+      name: repoName(project[project.length - 1]),
+    };
+  }
+
+  if (segments.length < 2) return null;
+  const [owner, name] = [segments[0], repoName(segments[1])];
+  if (host === "github.com" || host === "www.github.com") {
+    return { provider: "github", owner, name };
+  }
+  if (host === "bitbucket.org") {
+    return { provider: "bitbucket", owner, name };
+  }
+  return { provider: "git", host, owner, name };
+}
+
+/**
+ * Text for the repository field that parses back to the same repository.
+ */
+export function formatRepoInput(repo: RigRepository): string {
+  if (getProvider(repo).id === "github") {
+    return `${repo.owner}/${repo.name}`;
+  }
+  if (getProvider(repo).id === "file") {
+    return "local";
+  }
+  return getProvider(repo).treeBaseUrl(repo, repo.branch);
+}
+
+/**
+ * Resolve the repository's branch to the commit SHA it currently points at.
+ */
+export async function resolveCommitSha(
+  repo: RigRepository,
+  options: ProviderRequestOptions = {}
+): Promise<{ sha: string; error?: undefined } | { sha?: undefined; error: string }> {
+  try {
+    const result = await getProvider(repo).resolveCommitSha(repo, options);
+    if (result.error !== undefined) {
+      return { error: result.error };
+    }
+    const sha = result.data.trim();
+    if (!SHA_PATTERN.test(sha)) {
+      return { error: "The host returned an unexpected commit SHA" };
+    }
+    return { sha };
+  } catch {
+    return { error: `Failed to reach ${getProvider(repo).label}. Please try again.` };
+  }
+}
+
+/**
+ * Whether a raw file exists, or null if the host couldn't be reached.
+ */
+async function rawFileExists(url: string): Promise<boolean | null> {
+  try {
+    const res = await fetch(url, { method: "HEAD", cache: "no-store" });
+    return res.ok;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate that a repository exists and contains at least one install script
+ * (install.ps1 or install.sh) at its path. Hosts that can't list folders are
+ * checked by requesting the scripts directly. A valid repository reports
+ * which of the scripts it has.
+ */
+export async function validateRepository(
+  repo: RigRepository,
+  options: ProviderRequestOptions = {}
+): Promise<{
+  valid: boolean;
+  error?: string;
+  /** Set when the host couldn't answer, so the result says nothing about the repo */
+  unavailable?: boolean;
+  /** Install scripts found at the path, when valid */
+  installScripts?: InstallScriptName[];
+}> {
+  const provider = getProvider(repo);
+  const location = `${repo.owner}/${repo.name}/${repo.path}`;
+
+  if (!isAllowedHost(repo)) {
+    return { valid: false, error: hostNotAllowedMessage(repo) };
+  }
+
+  let fileNames: string[];
+  try {
+    const listing = await provider.listContents(repo, repo.path, repo.branch, options);
+    if (listing.error === undefined) {
+      fileNames = listing.data.map((entry) => entry.name);
+    } else if (listing.status === 404) {
+      return {
+        valid: false,
+        error: `Repository or path not found: ${location} (branch: ${repo.branch})`,
+      };
+    } else if (listing.status === 422) {
+      return { valid: false, error: listing.error };
+    } else if (listing.status === 501) {
+      fileNames = [];
+      let unreachable = false;
+      for (const name of ["install.ps1", "install.sh"]) {
+        const exists = await rawFileExists(
+          `${provider.rawBaseUrl(repo, repo.branch)}/${repo.path}/${name}`
+        );
+        if (exists) fileNames.push(name);
+        if (exists === null) unreachable = true;
+      }
+      if (unreachable && fileNames.length === 0) {
+        return { valid: false, error: `Failed to reach ${repo.host}. Please try again.`, unavailable: true };
+      }
+    } else {
+      return { valid: false, error: listing.error, unavailable: true };
+    }
+  } catch {
+    return {
+      valid: false,
+      error: `Failed to reach ${provider.label}. Please try again.`,
+      unavailable: true,
+    };
+  }
+
+  const installScripts = (["install.sh", "install.ps1"] as const).filter((name) =>
+    fileNames.includes(name)
+  );
+  if (installScripts.length === 0) {
+    return {
+      valid: false,
+      error: "Missing install script (install.ps1 or install.sh) in the specified path",
+    };
+  }
+
+  return { valid: true, installScripts };
+}
@@ -0,0 +1,44 @@
+import type { ParsedRepository } from "./providers";
+
+/** A failed /api/repositories request, with the server's user-facing message */
+export class RepositoryLookupError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * GET one of the /api/repositories lookups, which call the repository's host
+ * from the server (with the signed-in user's token on GitHub) and explain
+ * rate limits in their error message.
+ */
+export async function fetchRepository<T>(endpoint: string, query: string): Promise<T> {
+  const res = await fetch(`/api/repositories/${endpoint}?${query}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new RepositoryLookupError(data.error ?? "Failed to reach the repository's host", res.status);
+  }
+  return data;
+}
+
+/**
+ * Query string identifying a repository for the /api/repositories lookups.
+ */
+export function toRepoQuery(repo: ParsedRepository): string {
+  const params = new URLSearchParams({ provider: repo.provider, owner: repo.owner, name: repo.name });
+  if (repo.host) params.set("host", repo.host);
+  return params.toString();
+}
+
+export function fromRepoQuery(query: string): ParsedRepository {
+  const params = new URLSearchParams(query);
+  return {
+    provider: params.get("provider") as ParsedRepository["provider"],
+    host: params.get("host") ?? undefined,
+    owner: params.get("owner") ?? "",
+    name: params.get("name") ?? "",
+  };
+}
@@ -0,0 +1,242 @@
+import { getProvider } from "./providers";
+import type { InstallScript } from "./scripts";
+import type {
+  InstallScriptName,
+  RigRepository,
+  ScriptFinding,
+  ScriptSafetyReport,
+  ScriptSeverity,
+} from "./types";
+
+const severityRank: Record<ScriptSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * Vendor installers that are widely used and served over HTTPS from a fixed
+ * location. Piping one of these into a shell is still worth a note, but not a
+ * block. Hosts where anyone can publish, like raw.githubusercontent.com, are
+ * never trusted as a whole.
+ */
+const TRUSTED_INSTALLERS = [
+  "https://get.docker.com/",
+  "https://deb.nodesource.com/setup_",
+  "https://sh.rustup.rs/",
+];
+
+interface ScanRule {
+  id: string;
+  pattern: RegExp;
+  /** Fixed severity, or one derived from the matching line and trusted URL prefixes */
+  severity: ScriptSeverity | ((line: string, trusted: string[]) => ScriptSeverity);
+  message: string;
+}
+
+/**
+ * Severity of executing remote code: low when the URL is written out in full
+ * and starts with a trusted prefix, high otherwise. A URL built from variables
+ * could point anywhere, so it's treated like an unknown host.
+ */
+function remoteCodeSeverity(line: string, trusted: string[]): ScriptSeverity {
+  const url = line.match(/https?:\/\/[^\s"'|)`;]+/)?.[0];
+  if (!url || /[$`{}]/.test(url)) return "high";
+
+  try {
+    const href = new URL(url).href.toLowerCase();
+    return trusted.some((prefix) => href.startsWith(prefix.toLowerCase())) ? "low" : "high";
+  } catch {
+    return "high";
+  }
+}
+
+const BROAD_UNIX_PATH = String.raw`["']?(?:\/(?:\*|bin|boot|dev|etc|home|lib|opt|root|usr|var)?\/?|~\/?\*?|\$\{?HOME\}?\/?\*?|\*)["']?(?=\s|;|&|\||$)`;
+const SECRET_NAME = String.raw`[A-Za-z0-9_]*(?:TOKEN|SECRET|PASSWORD|API_KEY|PRIVATE_KEY)[A-Za-z0-9_]*`;
+
+const bashRules: ScanRule[] = [
+  {
+    id: "broad-delete",
+    pattern: new RegExp(
+      String.raw`\brm\s+-[a-zA-Z]*(?:r[a-zA-Z]*f|f[a-zA-Z]*r)[a-zA-Z]*\s+(?:--no-preserve-root\s+)?` + BROAD_UNIX_PATH
+    ),
+    severity: "high",
+    message: "Recursively deletes a system or home directory",
+  },
+  {
+    id: "remote-exec",
+    pattern: /\b(?:curl|wget)\b[^|\n]*\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b/,
+    severity: remoteCodeSeverity,
+    message: "Downloads a script and pipes it straight into a shell",
+  },
+  {
+    id: "remote-exec",
+    pattern: /\b(?:ba|z|da)?sh\s+(?:-c\s+)?["']?(?:<\(|\$\()\s*(?:curl|wget)\b/,
+    severity: remoteCodeSeverity,
+    message: "Downloads a script and runs it in a shell",
+  },
+  {
+    id: "elevation",
+    pattern: /(?:^|[\s;&|(])sudo\s/,
+    severity: "medium",
+    message: "Runs a command as root with sudo",
+  },
+  {
+    id: "shell-profile",
+    pattern: /(?:>>?|\btee\s+(?:-a\s+)?)\s*["']?(?:(?:~|\$\{?HOME\}?)\/\.(?:bashrc|bash_profile|zshrc|zprofile|zshenv|profile)\b|\/etc\/(?:profile|bash\.bashrc|zsh\/zshrc)\b)/,
+    severity: "medium",
+    message: "Writes to a shell startup file, which persists across sessions",
+  },
+  {
+    id: "env-exfiltration",
+    pattern: /\b(?:curl|wget|nc)\b[^\n]*(?:\$\((?:env|printenv)\)|`(?:env|printenv)`|\/proc\/self\/environ)|\b(?:env|printenv)\s*\|\s*(?:curl|wget|nc)\b/,
+    severity: "high",
+    message: "Sends the whole environment over the network",
+  },
+  {
+    id: "secret-in-request",
+    pattern: new RegExp(String.raw`\b(?:curl|wget)\b[^\n]*\$\{?` + SECRET_NAME),
+    severity: "medium",
+    message: "Sends a secret from the environment in a network request",
+  },
+];
+
+const powershellRules: ScanRule[] = [
+  {
+    id: "broad-delete",
+    pattern: /^(?=.*\b(?:Remove-Item|rm|ri|del|rmdir)\b)(?=.*\s-Recurse\b)(?=.*(?:\s|["'])(?:[A-Za-z]:\\?\*?|\$env:(?:USERPROFILE|SystemRoot|windir|HOMEDRIVE|ProgramFiles)\\?\*?|\$HOME\\?\*?|~\\?\*?)(?:["']|\s|;|$))/i,
+    severity: "high",
+    message: "Recursively deletes a system or home directory",
+  },
+  {
+    id: "remote-exec",
+    pattern: /\b(?:Invoke-RestMethod|Invoke-WebRequest|irm|iwr|DownloadString)\b[^\n]*\|\s*(?:Invoke-Expression|iex)\b|\b(?:Invoke-Expression|iex)\b[^\n]*\b(?:Invoke-RestMethod|Invoke-WebRequest|irm|iwr|DownloadString)\b/i,
+    severity: remoteCodeSeverity,
+    message: "Runs remote content with Invoke-Expression",
+  },
+  {
+    id: "elevation",
+    pattern: /\bStart-Process\b[^\n]*-Verb\s+["']?RunAs\b/i,
+    severity: "medium",
+    message: "Starts an elevated (administrator) process",
+  },
+  {
+    id: "shell-profile",
+    pattern: /\b(?:Add-Content|Set-Content|Out-File)\b[^\n]*\$PROFILE\b|>>?\s*["']?\$PROFILE\b/i,
+    severity: "medium",
+    message: "Writes to the PowerShell profile, which persists across sessions",
+  },
+  {
+    id: "env-exfiltration",
+    pattern: /^(?=.*\b(?:Invoke-RestMethod|Invoke-WebRequest|irm|iwr|UploadString)\b)(?=.*(?:\b(?:Get-ChildItem|gci|dir|ls)\s+env:|\[Environment\]::GetEnvironmentVariables))/i,
+    severity: "high",
+    message: "Sends the whole environment over the network",
+  },
+  {
+    id: "secret-in-request",
+    pattern: new RegExp(
+      String.raw`^(?=.*\b(?:Invoke-RestMethod|Invoke-WebRequest|irm|iwr)\b)(?=.*\$env:` + SECRET_NAME + ")",
+      "i"
+    ),
+    severity: "medium",
+    message: "Sends a secret from the environment in a network request",
+  },
+];
+
+const rulesByScript: Record<InstallScriptName, ScanRule[]> = {
+  "install.sh": bashRules,
+  "install.ps1": powershellRules,
+};
+
+/**
+ * Check an install script against the rules for its shell. Comment lines are
+ * skipped, and each rule is reported at most once per line. Remote code from
+ * a URL starting with one of `trusted` (or a vendor installer) isn't blocking.
+ */
+export function scanScript(
+  file: InstallScriptName,
+  content: string,
+  trusted: string[] = []
+): ScriptFinding[] {
+  const trustedPrefixes = [...TRUSTED_INSTALLERS, ...trusted];
+  const rules = rulesByScript[file];
+  const findings: ScriptFinding[] = [];
+  let inBlockComment = false;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+
+    // PowerShell block comments: <# ... #>
+    if (file === "install.ps1") {
+      if (inBlockComment) {
+        if (line.includes("#>")) inBlockComment = false;
+        return;
+      }
+      if (line.startsWith("<#")) {
+        inBlockComment = !line.includes("#>");
+        return;
+      }
+    }
+    if (line === "" || line.startsWith("#")) return;
+
+    const matched = new Set<string>();
+    for (const rule of rules) {
+      if (matched.has(rule.id) || !rule.pattern.test(line)) continue;
+      matched.add(rule.id);
+
+      findings.push({
+        rule: rule.id,
+        severity: typeof rule.severity === "function" ? rule.severity(line, trustedPrefixes) : rule.severity,
+        file,
+        line: index + 1,
+        excerpt: line.length > 160 ? `${line.slice(0, 157)}...` : line,
+        message: rule.message,
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * The most severe of a set of findings, or null if there are none.
+ */
+export function getHighestSeverity(findings: ScriptFinding[]): ScriptSeverity | null {
+  return findings.reduce<ScriptSeverity | null>(
+    (highest, finding) =>
+      highest === null || severityRank[finding.severity] > severityRank[highest]
+        ? finding.severity
+        : highest,
+    null
+  );
+}
+
+/**
+ * Whether a report has findings serious enough to require a human review.
+ */
+export function hasBlockingFindings(report: ScriptSafetyReport): boolean {
+  return report.highestSeverity === "high";
+}
+
+/**
+ * Scan a rig's install scripts, downloaded at `commitSha`, into a safety
+ * report. Files from the rig's repository at that same commit are trusted like
+ * vendor installers; any other branch or commit could change after review.
+ */
+export function buildSafetyReport(
+  scripts: InstallScript[],
+  repo: RigRepository,
+  commitSha: string
+): ScriptSafetyReport {
+  const scannedCommit = `${getProvider(repo).rawBaseUrl(repo, commitSha)}/`;
+  const findings = scripts.flatMap((script) =>
+    scanScript(script.name, script.content, [scannedCommit])
+  );
+
+  return {
+    scannedFiles: scripts.map((script) => script.name),
+    findings,
+    highestSeverity: getHighestSeverity(findings),
+    scannedAt: new Date().toISOString(),
+  };
+}
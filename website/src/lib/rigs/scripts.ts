@@ -0,0 +1,110 @@
+import { createHash } from "node:crypto";
+import { getProvider, resolveCommitSha } from "./providers";
+import { buildSafetyReport } from "./scanner";
+import {
+  getRawFileUrl,
+  type InstallScriptName,
+  type RigRepository,
+  type ScriptHashes,
+  type ScriptSafetyReport,
+} from "./types";
+
+/** Install scripts a rig may ship, in the order they're reported */
+export const INSTALL_SCRIPTS: readonly InstallScriptName[] = ["install.sh", "install.ps1"];
+
+export interface InstallScript {
+  name: InstallScriptName;
+  /** Script contents decoded as UTF-8 */
+  content: string;
+  /** Hex SHA-256 of the script's exact bytes */
+  sha256: string;
+}
+
+/**
+ * Download a rig's install scripts at `ref`. Scripts the rig doesn't have are
+ * skipped; it's an error for it to have none.
+ */
+export async function fetchInstallScripts(
+  repo: RigRepository,
+  ref: string = repo.branch
+): Promise<
+  | { scripts: InstallScript[]; error?: undefined }
+  | { scripts?: undefined; error: string }
+> {
+  const scripts: InstallScript[] = [];
+
+  for (const name of INSTALL_SCRIPTS) {
+    let response: Response;
+    try {
+      response = await fetch(
+        getRawFileUrl(repo, name, ref),
+        getProvider(repo).cacheable
+          ? { next: { revalidate: 300 } } // Cache for 5 minutes
+          : { cache: "no-store" }
+      );
+    } catch {
+      return { error: `Failed to reach ${getProvider(repo).label}` };
+    }
+
+    if (response.status === 404) continue;
+    if (!response.ok) {
+      return {
+        error: `Failed to fetch ${name}: ${response.status} ${response.statusText}`,
+      };
+    }
+
+    // Hash the raw bytes -- decoding as text would drop a byte order mark
+    const bytes = Buffer.from(await response.arrayBuffer());
+    scripts.push({
+      name,
+      content: bytes.toString("utf8"),
+      sha256: createHash("sha256").update(bytes).digest("hex"),
+    });
+  }
+
+  if (scripts.length === 0) {
+    return { error: "No install scripts (install.sh or install.ps1) found" };
+  }
+
+  return { scripts };
+}
+
+/**
+ * Collect the SHA-256 hashes of downloaded install scripts by file name.
+ */
+export function getScriptHashes(scripts: InstallScript[]): ScriptHashes {
+  return Object.fromEntries(scripts.map((script) => [script.name, script.sha256]));
+}
+
+/**
+ * Resolve the rig's branch to a commit SHA and hash and safety-scan its
+ * install scripts at that commit, so installs can be pinned to exactly what
+ * was reviewed.
+ */
+export async function pinInstallScripts(
+  repo: RigRepository
+): Promise<
+  | {
+      commitSha: string;
+      scriptHashes: ScriptHashes;
+      safetyReport: ScriptSafetyReport;
+      error?: undefined;
+    }
+  | { commitSha?: undefined; scriptHashes?: undefined; safetyReport?: undefined; error: string }
+> {
+  const commit = await resolveCommitSha(repo);
+  if (commit.error !== undefined) {
+    return { error: commit.error };
+  }
+
+  const fetched = await fetchInstallScripts(repo, commit.sha);
+  if (fetched.error !== undefined) {
+    return { error: fetched.error };
+  }
+
+  return {
+    commitSha: commit.sha,
+    scriptHashes: getScriptHashes(fetched.scripts),
+    safetyReport: buildSafetyReport(fetched.scripts, repo, commit.sha),
+  };
+}
@@ -0,0 +1,74 @@
+import { defaultRigSort, rigSearchSchema, type RigSearchFilters } from "./validation";
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+/**
+ * Normalize URL search params (from a Request or a page's searchParams prop)
+ * into the shape expected by rigSearchSchema. Empty values are dropped.
+ */
+function normalizeSearchParams(
+  input: URLSearchParams | SearchParamsRecord
+): Record<string, unknown> {
+  const getAll = (key: string): string[] => {
+    const values =
+      input instanceof URLSearchParams
+        ? input.getAll(key)
+        : ([] as string[]).concat(input[key] ?? []);
+    return values.map((v) => v.trim()).filter(Boolean);
+  };
+
+  return {
+    q: getAll("q")[0],
+    category: getAll("category")[0],
+    tag: getAll("tag"),
+    difficulty: getAll("difficulty")[0],
+    status: getAll("status")[0],
+    sort: getAll("sort")[0],
+  };
+}
+
+/**
+ * Parse catalog search params. Returns the validation error instead of
+ * throwing so API routes can respond with a 400.
+ */
+export function parseRigSearchParams(
+  input: URLSearchParams | SearchParamsRecord
+) {
+  return rigSearchSchema.safeParse(normalizeSearchParams(input));
+}
+
+/**
+ * Serialize search filters back into a query string (without the leading "?").
+ */
+export function toRigSearchQuery(filters: RigSearchFilters): string {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.category) params.set("category", filters.category);
+  for (const tag of filters.tag) params.append("tag", tag);
+  if (filters.difficulty) params.set("difficulty", filters.difficulty);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.sort !== defaultRigSort(filters)) params.set("sort", filters.sort);
+  return params.toString();
+}
+
+/**
+ * Build a /rigs URL for the given filters, used by facet links so searches
+ * stay shareable.
+ */
+export function buildRigSearchHref(filters: RigSearchFilters): string {
+  const query = toRigSearchQuery(filters);
+  return query ? `/rigs?${query}` : "/rigs";
+}
+
+/**
+ * Whether any filter is active. Sort order alone does not count.
+ */
+export function hasActiveFilters(filters: RigSearchFilters): boolean {
+  return Boolean(
+    filters.q ||
+      filters.category ||
+      filters.tag.length > 0 ||
+      filters.difficulty ||
+      filters.status
+  );
+}
@@ -0,0 +1,92 @@
+import { db } from "@/lib/db";
+import { rigStars, rigs } from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+
+export interface RigStarState {
+  starred: boolean;
+  starCount: number;
+}
+
+async function getStarCount(rigId: number): Promise<number> {
+  const [row] = await db
+    .select({ starCount: rigs.starCount })
+    .from(rigs)
+    .where(eq(rigs.id, rigId))
+    .limit(1);
+
+  return row?.starCount ?? 0;
+}
+
+/**
+ * Star a rig on behalf of a user. Starring twice is a no-op, so the
+ * denormalized count only moves when a star is actually added.
+ */
+export async function starRig(rigId: number, login: string): Promise<RigStarState> {
+  const inserted = await db
+    .insert(rigStars)
+    .values({ rigId, login })
+    .onConflictDoNothing()
+    .returning({ id: rigStars.id });
+
+  if (inserted.length === 0) {
+    return { starred: true, starCount: await getStarCount(rigId) };
+  }
+
+  const [updated] = await db
+    .update(rigs)
+    .set({ starCount: sql`${rigs.starCount} + 1` })
+    .where(eq(rigs.id, rigId))
+    .returning({ starCount: rigs.starCount });
+
+  return { starred: true, starCount: updated?.starCount ?? 0 };
+}
+
+/**
+ * Remove a user's star from a rig. Unstarring a rig that isn't starred is a
+ * no-op.
+ */
+export async function unstarRig(rigId: number, login: string): Promise<RigStarState> {
+  const deleted = await db
+    .delete(rigStars)
+    .where(and(eq(rigStars.rigId, rigId), eq(rigStars.login, login)))
+    .returning({ id: rigStars.id });
+
+  if (deleted.length === 0) {
+    return { starred: false, starCount: await getStarCount(rigId) };
+  }
+
+  const [updated] = await db
+    .update(rigs)
+    .set({ starCount: sql`greatest(${rigs.starCount} - 1, 0)` })
+    .where(eq(rigs.id, rigId))
+    .returning({ starCount: rigs.starCount });
+
+  return { starred: false, starCount: updated?.starCount ?? 0 };
+}
+
+/**
+ * Whether a user has starred a rig.
+ */
+export async function isRigStarred(rigId: number, login: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: rigStars.id })
+    .from(rigStars)
+    .where(and(eq(rigStars.rigId, rigId), eq(rigStars.login, login)))
+    .limit(1);
+
+  return Boolean(row);
+}
+
+/**
+ * IDs of every rig a user has starred, for marking cards in listings.
+ */
+export async function getStarredRigIds(login: string | null | undefined): Promise<number[]> {
+  if (!login) return [];
+
+  const rows = await db
+    .select({ rigId: rigStars.rigId })
+    .from(rigStars)
+    .where(eq(rigStars.login, login));
+
+  return rows.map((row) => row.rigId);
+}
@@ -0,0 +1,176 @@
+import { db } from "@/lib/db";
+import { rigs } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getCategory } from "./categories";
+import { checkRigConsistency } from "./consistency";
+import { autoApproveRig } from "./moderation";
+import { pinInstallScripts } from "./scripts";
+import { loadRigConfig, type ConsistencyIssue, type Rig, type RigConfig } from "./types";
+
+/**
+ * Rig fields that are copied from config.json into the database.
+ */
+const syncedFields = [
+  "name",
+  "tagline",
+  "description",
+  "category",
+  "tags",
+  "difficulty",
+  "readiness",
+] as const;
+
+export type SyncedRigField = (typeof syncedFields)[number];
+
+/**
+ * A single field whose database value differs from config.json, a move of the
+ * rig's pinned commit, or a return to the moderation queue.
+ */
+export interface RigFieldChange {
+  field: SyncedRigField | "pinnedCommitSha" | "status";
+  from: Rig[SyncedRigField | "pinnedCommitSha" | "status"];
+  to: Rig[SyncedRigField | "pinnedCommitSha" | "status"];
+}
+
+export interface RigSyncResult {
+  changes: RigFieldChange[];
+  /** Where config.json disagrees with the repository; empty on error */
+  consistencyIssues: ConsistencyIssue[];
+  /** Whether the database row was updated */
+  updated: boolean;
+  error?: string;
+}
+
+/**
+ * Map a config.json onto the database fields it owns.
+ */
+function configToRigFields(config: RigConfig): Pick<Rig, SyncedRigField> {
+  return {
+    name: config.name,
+    tagline: config.tagline,
+    description: config.description,
+    category: config.category,
+    tags: config.tags,
+    difficulty: config.difficulty,
+    readiness: config.status,
+  };
+}
+
+/**
+ * Compare a rig's database row with its config.json.
+ */
+export function diffRigWithConfig(rig: Rig, config: RigConfig): RigFieldChange[] {
+  const target = configToRigFields(config);
+  return syncedFields
+    .filter((field) => JSON.stringify(rig[field]) !== JSON.stringify(target[field]))
+    .map((field) => ({ field, from: rig[field], to: target[field] }));
+}
+
+/**
+ * Pull the rig's config.json and copy its metadata into the database row, pin
+ * and safety-scan the install scripts at the branch's current commit, and
+ * check config.json against the repository. An approved rig whose scripts
+ * changed goes back to pending, unless the new scan lets it be auto-approved.
+ * With `dryRun`, only reports what would change.
+ */
+export async function syncRigFromConfig(
+  rig: Rig,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<RigSyncResult> {
+  const { config, issues, error } = await loadRigConfig(rig.repository, undefined, {
+    fresh: true,
+  });
+
+  if (!config) {
+    return {
+      changes: [],
+      consistencyIssues: [],
+      updated: false,
+      error:
+        issues.length > 0
+          ? "config.json does not match the rig config schema"
+          : error ?? "config.json not found",
+    };
+  }
+
+  // The category is copied onto the rig, so it must be one the site has
+  if (config.category !== rig.category && !(await getCategory(config.category))) {
+    return {
+      changes: [],
+      consistencyIssues: [],
+      updated: false,
+      error: `config.json has category "${config.category}", which isn't one of the site's categories`,
+    };
+  }
+
+  const changes: RigFieldChange[] = diffRigWithConfig(rig, config);
+
+  // Re-pin the install scripts to wherever the branch now points. A failure
+  // here keeps the old pin rather than blocking the metadata sync.
+  const pin = await pinInstallScripts(rig.repository);
+  if (pin.error !== undefined) {
+    console.error(`Failed to pin install scripts of ${rig.slug}:`, pin.error);
+  } else if (
+    pin.commitSha !== rig.pinnedCommitSha ||
+    JSON.stringify(pin.scriptHashes) !== JSON.stringify(rig.scriptHashes)
+  ) {
+    changes.push({ field: "pinnedCommitSha", from: rig.pinnedCommitSha, to: pin.commitSha });
+  }
+
+  // The scripts that were reviewed are no longer the ones installed. A rig
+  // pinned before hashes were recorded has nothing to compare against.
+  const scriptsChanged =
+    pin.error === undefined &&
+    rig.scriptHashes !== null &&
+    JSON.stringify(pin.scriptHashes) !== JSON.stringify(rig.scriptHashes);
+  if (scriptsChanged && rig.status === "approved") {
+    changes.push({ field: "status", from: rig.status, to: "pending" });
+  }
+
+  const consistencyIssues = await checkRigConsistency(rig, config);
+
+  if (dryRun) {
+    return { changes, consistencyIssues, updated: false };
+  }
+
+  // The consistency check is recorded even when nothing else changed
+  await db
+    .update(rigs)
+    .set({
+      ...(changes.length > 0
+        ? {
+            ...configToRigFields(config),
+            ...(pin.error === undefined
+              ? {
+                  pinnedCommitSha: pin.commitSha,
+                  scriptHashes: pin.scriptHashes,
+                  safetyReport: pin.safetyReport,
+                }
+              : {}),
+            ...(scriptsChanged && rig.status === "approved"
+              ? { status: "pending", reviewedBy: null, reviewedAt: null }
+              : {}),
+            updatedAt: new Date(),
+          }
+        : {}),
+      consistencyIssues,
+      consistencyCheckedAt: new Date(),
+    })
+    .where(eq(rigs.id, rig.id));
+
+  // A clean scan of the new scripts approves the rig again, as for a new
+  // submission
+  if (
+    scriptsChanged &&
+    rig.status === "approved" &&
+    (await autoApproveRig(rig.id, pin.safetyReport ?? null))
+  ) {
+    return {
+      changes: changes.filter((change) => change.field !== "status"),
+      consistencyIssues,
+      updated: true,
+    };
+  }
+
+  return { changes, consistencyIssues, updated: changes.length > 0 };
+}
@@ -1,6 +1,56 @@
-export type RigCategory = "ci-cd" | "coding" | "personal" | "automation" | "self-hosted";
+import { getProvider } from "./providers";
+import { parseRigConfig, type CategoryIconName, type RigConfigIssue } from "./validation";
+
+/** Slug of one of the catalog's categories, which are kept in the database */
+export type RigCategory = string;
+
+export type RigDifficulty = "beginner" | "intermediate" | "advanced";
+
+export type RigReadiness = "ready" | "beta" | "experimental";
+
+export type RigStatus = "pending" | "approved" | "rejected";
+
+/** Icons a category can be shown with; see components/rigs/category-icon */
+export type { CategoryIconName };
+
+/**
+ * A catalog category, managed by admins at /admin/categories. Rigs refer to
+ * it by slug.
+ */
+export interface Category {
+  id: number;
+  slug: RigCategory;
+  label: string;
+  description: string;
+  icon: CategoryIconName;
+  /** Lower comes first in lists */
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Display label of a category, or its slug if it isn't in `categories`.
+ */
+export function getCategoryLabel(
+  categories: Pick<Category, "slug" | "label">[],
+  slug: RigCategory
+): string {
+  return categories.find((category) => category.slug === slug)?.label ?? slug;
+}
+
+/**
+ * Hosts rigs can be served from; "git" is any other Gitea-style host and
+ * "file" is a local directory for offline development
+ */
+export type RepositoryProviderId = "github" | "gitlab" | "bitbucket" | "git" | "file";
 
 export interface RigRepository {
+  /** Where the repository is hosted; GitHub when unset */
+  provider?: RepositoryProviderId;
+  /** Host of a self-managed GitLab or other Git host, e.g. gitlab.example.com */
+  host?: string;
+  /** Owner, GitLab group (which may be nested) or Bitbucket workspace */
   owner: string;
   name: string;
   branch: string;
@@ -18,13 +68,182 @@ export interface Rig {
   tagline: string;
   description: string;
   category: RigCategory;
+  /** Tags copied from config.json for discovery */
+  tags: string[];
+  /** Difficulty copied from config.json, if the rig has one */
+  difficulty: RigDifficulty | null;
+  /** Readiness status copied from config.json, if the rig has one */
+  readiness: RigReadiness | null;
+  /** Number of successful installs reported by installers */
+  installCount: number;
+  /** Number of failed installs reported by installers */
+  failedInstallCount: number;
+  /** Number of users who starred the rig */
+  starCount: number;
   repository: RigRepository;
+  /** Commit the branch pointed at when the rig was last submitted or synced */
+  pinnedCommitSha: string | null;
+  /** SHA-256 hashes of the install scripts at pinnedCommitSha */
+  scriptHashes: ScriptHashes | null;
+  /** Static safety scan of the install scripts at pinnedCommitSha */
+  safetyReport: ScriptSafetyReport | null;
   submittedBy: string;
   submittedByAvatar: string | null;
+  /** Moderation status; only approved rigs are listed publicly */
+  status: RigStatus;
+  /** GitHub login of the admin who last approved or rejected the rig */
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  /** Reason given to the submitter when the rig was rejected */
+  rejectionReason: string | null;
+  /** Result of the last scheduled health check; null if it never ran */
+  healthStatus: RigHealthStatus | null;
+  healthCheckedAt: Date | null;
+  /** Problems found by the last consistency check; null if it never ran */
+  consistencyIssues: ConsistencyIssue[] | null;
+  consistencyCheckedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A published release of a rig, pinned to the commit it was published from.
+ */
+export interface RigVersion {
+  id: number;
+  rigId: number;
+  /** Semantic version from config.json at the time of publishing */
+  version: string;
+  /** Commit SHA the version was published from */
+  commitSha: string;
+  /** Snapshot of config.json at commitSha */
+  config: RigConfig;
+  /** Release notes written by the publisher */
+  changelog: string | null;
+  /** GitHub login of whoever published the version */
+  publishedBy: string;
+  /** Static safety scan of the install scripts at commitSha, if one ran */
+  safetyReport: ScriptSafetyReport | null;
+  /** SHA-256 hashes of the install scripts at commitSha */
+  scriptHashes: ScriptHashes | null;
+  createdAt: Date;
+}
+
+export type InstallScriptName = "install.sh" | "install.ps1";
+
+/** Hex SHA-256 of each install script, keyed by file name */
+export type ScriptHashes = Partial<Record<InstallScriptName, string>>;
+
+export type ScriptSeverity = "low" | "medium" | "high";
+
+/**
+ * A risky pattern found in an install script.
+ */
+export interface ScriptFinding {
+  /** Identifier of the rule that matched, e.g. "sudo" */
+  rule: string;
+  severity: ScriptSeverity;
+  /** Script the finding is in */
+  file: InstallScriptName;
+  /** 1-based line number */
+  line: number;
+  /** The offending line, trimmed and truncated */
+  excerpt: string;
+  message: string;
+}
+
+/**
+ * Result of scanning a rig's install scripts at a commit.
+ */
+export interface ScriptSafetyReport {
+  /** Install scripts that were downloaded and scanned */
+  scannedFiles: InstallScriptName[];
+  findings: ScriptFinding[];
+  /** Most severe finding, or null if the scripts are clean */
+  highestSeverity: ScriptSeverity | null;
+  /** ISO timestamp of the scan */
+  scannedAt: string;
+}
+
+export type RigHealthStatus = "healthy" | "degraded" | "broken";
+
+/**
+ * Something a health check found wrong: the repository, branch, folder or
+ * install scripts are gone ("repository"), one of the install scripts is
+ * missing ("install-script"), or config.json is missing or invalid ("config").
+ */
+export interface RigHealthProblem {
+  check: "repository" | "install-script" | "config";
+  message: string;
+}
+
+/**
+ * One scheduled health check of a rig.
+ */
+export interface RigHealthCheck {
+  id: number;
+  rigId: number;
+  status: RigHealthStatus;
+  problems: RigHealthProblem[];
+  checkedAt: Date;
+}
+
+export type ConsistencyCheck =
+  | "missing-file"
+  | "missing-upstream"
+  | "install-command"
+  | "slug-mismatch"
+  | "repository-mismatch";
+
+/**
+ * A place where config.json disagrees with the repository it describes or
+ * with the rig's catalog entry.
+ */
+export interface ConsistencyIssue {
+  check: ConsistencyCheck;
+  /** config.json field the issue is about, e.g. "files.2.path" */
+  field: string;
+  message: string;
+}
+
+/**
+ * A rig folder found while scanning a repository to import its rigs, with
+ * what its config.json says about it.
+ */
+export interface RigImportCandidate {
+  /** Folder path from the repository root; empty for the root */
+  path: string;
+  slug: string | null;
+  name: string | null;
+  tagline: string | null;
+  category: RigCategory | null;
+  /** Why the rig can't be imported; null if it can */
+  error: string | null;
+  /** config.json schema errors, when those are the reason */
+  issues: RigConfigIssue[];
+}
+
+export type RigInstaller = "powershell" | "bash";
+
+/**
+ * Install reports for one installer flavor of a rig.
+ */
+export interface RigInstallBreakdown {
+  installer: RigInstaller;
+  successes: number;
+  failures: number;
+}
+
+/**
+ * Share of reported installs that succeeded, or null if none were reported.
+ */
+export function getInstallSuccessRate(
+  rig: Pick<Rig, "installCount" | "failedInstallCount">
+): number | null {
+  const total = rig.installCount + rig.failedInstallCount;
+  return total > 0 ? rig.installCount / total : null;
+}
+
 // ---------------------------------------------------------------------------
 // Rig Config Schema -- defines the structure of a rig's config.json file
 // ---------------------------------------------------------------------------
@@ -111,9 +330,9 @@ export interface RigConfig {
   /** Tags for discovery */
   tags: string[];
   /** Difficulty level */
-  difficulty: "beginner" | "intermediate" | "advanced";
+  difficulty: RigDifficulty;
   /** Readiness status */
-  status: "ready" | "beta" | "experimental";
+  status: RigReadiness;
 
   /** Repository location */
   repository: RigRepository;
@@ -146,55 +365,265 @@ export interface RigConfig {
   };
 }
 
+/**
+ * Version of the index schema. Fields may be added within a version; removing
+ * or changing a field means a new version at a new URL (/api/v1, /api/v2...).
+ */
+export const RIG_INDEX_SCHEMA_VERSION = 1;
+
+/**
+ * The public rig index served at GET /api/v1/index.json: every approved rig,
+ * with its catalog metadata, config.json and ready-to-run install commands.
+ */
+export interface RigIndex {
+  schemaVersion: typeof RIG_INDEX_SCHEMA_VERSION;
+  /** The categories rigs can be in, in display order */
+  categories: RigIndexCategory[];
+  rigs: RigIndexEntry[];
+}
+
+export type RigIndexCategory = Pick<Category, "slug" | "label" | "description" | "icon">;
+
+export interface RigIndexEntry {
+  slug: string;
+  name: string;
+  tagline: string;
+  description: string;
+  category: RigCategory;
+  tags: string[];
+  difficulty: RigDifficulty | null;
+  readiness: RigReadiness | null;
+  /** GitHub login of the submitter */
+  submittedBy: string;
+  installCount: number;
+  starCount: number;
+  /** ISO 8601 timestamps */
+  createdAt: string;
+  updatedAt: string;
+  repository: RigRepository;
+  urls: {
+    /** The rig's page on this site */
+    page: string;
+    /** The rig's folder on its Git host */
+    repository: string;
+    /** Raw config.json on the rig's branch */
+    config: string;
+  };
+  /** One-line install commands that run the scripts on the rig's branch */
+  install: {
+    powershell: string;
+    bash: string;
+  };
+  /**
+   * Install commands pinned to a commit that check each script's SHA-256
+   * before running it, or null if the rig hasn't been pinned yet. A command
+   * is null when the rig doesn't ship that script.
+   */
+  verifiedInstall: {
+    commitSha: string;
+    /** SHA-256 of each install script at commitSha */
+    scriptHashes: ScriptHashes;
+    powershell: string | null;
+    bash: string | null;
+  } | null;
+  /** The most recently published version, if any */
+  latestVersion: {
+    version: string;
+    commitSha: string;
+    publishedAt: string;
+  } | null;
+  /** config.json on the rig's branch, or null if it is missing or invalid */
+  config: RigConfig | null;
+}
+
+/**
+ * Name of the environment variable that tells an install script which commit
+ * (or branch) it was downloaded from, so the files it fetches come from the
+ * same ref instead of the moving branch.
+ */
+export const INSTALL_REF_ENV = "AI_FOUNDRY_REF";
+
 /**
  * Build install commands from repository info.
+ * Pass a commit SHA as `ref` to pin the commands to that commit instead of
+ * the repository's branch; the script is then told the ref in INSTALL_REF_ENV.
  */
-export function buildInstallCommands(repo: RigRepository): {
+export function buildInstallCommands(
+  repo: RigRepository,
+  ref: string = repo.branch
+): {
   powershell: string;
   bash: string;
 } {
-  const rawBase = `https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${repo.branch}/${repo.path}`;
+  const rawBase = `${getProvider(repo).rawBaseUrl(repo, ref)}/${repo.path}`;
+  if (ref === repo.branch) {
+    return {
+      powershell: `irm ${rawBase}/install.ps1 | iex`,
+      bash: `curl -fsSL ${rawBase}/install.sh | bash`,
+    };
+  }
   return {
-    powershell: `irm ${rawBase}/install.ps1 | iex`,
-    bash: `curl -fsSL ${rawBase}/install.sh | bash`,
+    powershell: `$env:${INSTALL_REF_ENV} = '${ref}'; irm ${rawBase}/install.ps1 | iex`,
+    bash: `curl -fsSL ${rawBase}/install.sh | ${INSTALL_REF_ENV}=${ref} bash`,
   };
 }
 
 /**
- * Get the GitHub URL for the rig's source.
+ * Build install commands that download each script from `commitSha`, check it
+ * against its pinned SHA-256 and only run it if the hash matches. The script
+ * gets `commitSha` in INSTALL_REF_ENV so the rest of its files come from the
+ * same commit. A command is null when there is no hash for that script.
  */
-export function getRepoUrl(repo: RigRepository): string {
-  return `https://github.com/${repo.owner}/${repo.name}/tree/${repo.branch}/${repo.path}`;
+export function buildVerifiedInstallCommands(
+  repo: RigRepository,
+  commitSha: string,
+  hashes: ScriptHashes
+): {
+  powershell: string | null;
+  bash: string | null;
+} {
+  const rawBase = `${getProvider(repo).rawBaseUrl(repo, commitSha)}/${repo.path}`;
+  const ps1Hash = hashes["install.ps1"];
+  const shHash = hashes["install.sh"];
+
+  return {
+    powershell: ps1Hash
+      ? `$f = (New-TemporaryFile).FullName; Invoke-WebRequest -UseBasicParsing ${rawBase}/install.ps1 -OutFile $f; ` +
+        `if ((Get-FileHash $f -Algorithm SHA256).Hash -eq '${ps1Hash}') { $env:${INSTALL_REF_ENV} = '${commitSha}'; iex (Get-Content $f -Raw) } ` +
+        `else { Write-Error 'install.ps1 does not match its pinned SHA-256 -- not running it' }`
+      : null,
+    bash: shHash
+      ? `f="$(mktemp)"; curl -fsSL ${rawBase}/install.sh -o "$f" && ` +
+        `if [ "$( (sha256sum "$f" 2>/dev/null || shasum -a 256 "$f") | cut -d' ' -f1)" = "${shHash}" ]; ` +
+        `then ${INSTALL_REF_ENV}=${commitSha} bash "$f"; else echo "install.sh does not match its pinned SHA-256 -- not running it" >&2; fi`
+      : null,
+  };
 }
 
 /**
- * Get the GitHub URL for a specific file in the rig.
+ * Get the URL of the rig's folder on its Git host.
  */
-export function getFileUrl(repo: RigRepository, fileName: string): string {
-  return `https://github.com/${repo.owner}/${repo.name}/blob/${repo.branch}/${repo.path}/${fileName}`;
+export function getRepoUrl(repo: RigRepository, ref: string = repo.branch): string {
+  return `${getProvider(repo).treeBaseUrl(repo, ref)}/${repo.path}`;
 }
 
 /**
- * Get the raw GitHub URL for a specific file in the rig.
+ * Get the URL of a specific file in the rig on its Git host.
  */
-export function getRawFileUrl(repo: RigRepository, fileName: string): string {
-  return `https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${repo.branch}/${repo.path}/${fileName}`;
+export function getFileUrl(
+  repo: RigRepository,
+  fileName: string,
+  ref: string = repo.branch
+): string {
+  return `${getProvider(repo).blobBaseUrl(repo, ref)}/${repo.path}/${fileName}`;
 }
 
 /**
- * Fetch the rig's config.json from GitHub.
- * Returns null if the config cannot be fetched or parsed.
+ * Get the raw URL for a specific file in the rig.
  */
-export async function fetchRigConfig(
-  repo: RigRepository
-): Promise<RigConfig | null> {
-  const url = getRawFileUrl(repo, "config.json");
+export function getRawFileUrl(
+  repo: RigRepository,
+  fileName: string,
+  ref: string = repo.branch
+): string {
+  return `${getProvider(repo).rawBaseUrl(repo, ref)}/${repo.path}/${fileName}`;
+}
+
+/**
+ * Get the URL of a commit in the rig's repository.
+ */
+export function getCommitUrl(repo: RigRepository, sha: string): string {
+  return getProvider(repo).commitUrl(repo, sha);
+}
+
+/**
+ * Get the URL comparing two commits, or null if the host has no such page.
+ */
+export function getCompareUrl(repo: RigRepository, from: string, to: string): string | null {
+  return getProvider(repo).compareUrl(repo, from, to);
+}
+
+/**
+ * Result of loading a rig's config.json.
+ */
+export interface RigConfigResult {
+  /** The validated config, or null if it is missing or invalid */
+  config: RigConfig | null;
+  /** Field-level schema errors, when config.json exists but is malformed */
+  issues: RigConfigIssue[];
+  /** Set when config.json could not be fetched at all */
+  error?: string;
+  /**
+   * Set with `error` when the host couldn't be reached, failed or limited
+   * requests, so the result says nothing about the rig itself
+   */
+  unavailable?: boolean;
+}
+
+/**
+ * Fetch the rig's config.json from its repository and validate it against the
+ * rig config schema. Reads from the repository's branch unless `ref` is given.
+ * Pass `fresh` to bypass the fetch cache; local files are never cached.
+ */
+export async function loadRigConfig(
+  repo: RigRepository,
+  ref: string = repo.branch,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<RigConfigResult> {
+  const url = getRawFileUrl(repo, "config.json", ref);
+  let response: Response;
   try {
-    const response = await fetch(url, { next: { revalidate: 300 } }); // Cache for 5 minutes
-    if (!response.ok) return null;
-    const config = await response.json();
-    return config as RigConfig;
+    response = await fetch(
+      url,
+      fresh || !getProvider(repo).cacheable
+        ? { cache: "no-store" }
+        : { next: { revalidate: 300 } } // Cache for 5 minutes
+    );
   } catch {
-    return null;
+    return {
+      config: null,
+      issues: [],
+      error: `Failed to reach ${getProvider(repo).label}`,
+      unavailable: true,
+    };
   }
+
+  if (response.status === 404) {
+    return { config: null, issues: [], error: "config.json not found" };
+  }
+  if (!response.ok) {
+    return {
+      config: null,
+      issues: [],
+      error: `Failed to fetch config.json: ${response.status} ${response.statusText}`,
+      unavailable: response.status >= 500 || response.status === 429,
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    return {
+      config: null,
+      issues: [{ path: "(root)", message: "config.json is not valid JSON" }],
+    };
+  }
+
+  const parsed = parseRigConfig(data);
+  if (parsed.issues) {
+    return { config: null, issues: parsed.issues };
+  }
+  return { config: parsed.config, issues: [] };
+}
+
+/**
+ * Fetch the rig's config.json from its repository.
+ * Returns null if the config cannot be fetched or fails validation.
+ */
+export async function fetchRigConfig(
+  repo: RigRepository
+): Promise<RigConfig | null> {
+  const { config } = await loadRigConfig(repo);
+  return config;
 }
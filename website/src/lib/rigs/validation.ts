@@ -1,22 +1,348 @@
 import { z } from "zod";
+import type { RigConfig } from "./types";
 
 const slugRegex = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
 
+// Categories live in the database, so only their slug format is checked here;
+// the API checks that a submitted category exists
+export const rigCategorySchema = z.string().regex(slugRegex, "Category must be a slug like ci-cd");
+export const rigDifficultySchema = z.enum(["beginner", "intermediate", "advanced"]);
+export const rigReadinessSchema = z.enum(["ready", "beta", "experimental"]);
+export const rigStatusSchema = z.enum(["pending", "approved", "rejected"]);
+export const categoryIconSchema = z.enum([
+  "workflow",
+  "code",
+  "user",
+  "zap",
+  "server",
+  "bot",
+  "box",
+  "wrench",
+  "database",
+  "globe",
+  "shield",
+  "terminal",
+]);
+export const repositoryProviderSchema = z.enum(["github", "gitlab", "bitbucket", "git", "file"]);
+
+// Where a repository is hosted. Without a provider it's on GitHub; GitLab
+// without a host is GitLab.com, and generic Git hosts always need one.
+const repositoryHostFields = {
+  provider: repositoryProviderSchema.optional(),
+  host: z
+    .string()
+    .regex(/^[a-z0-9.-]+(?::\d+)?$/i, "Host must be a hostname like gitlab.example.com")
+    .optional(),
+};
+
+function hasRequiredHost(repo: { provider?: string; host?: string }): boolean {
+  return repo.provider !== "git" || Boolean(repo.host);
+}
+
+// "." and ".." segments, also percent-encoded, which URLs resolve as such
+const isCurrentSegment = (segment: string) => /^(\.|%2e)$/i.test(segment);
+const isParentSegment = (segment: string) => /^(\.|%2e){2}$/i.test(segment);
+
+/**
+ * A folder's path from the repository root, such as "rigs/igor"; empty means
+ * the root. Leading, trailing and doubled slashes and "." segments are
+ * dropped. Paths that are absolute or climb out with ".." are refused, since
+ * they'd point the rig's URLs outside its repository.
+ */
+export const repositoryPathSchema = z
+  .string()
+  .refine(
+    (path) =>
+      !path.startsWith("/") && !path.includes("\\") && !path.split("/").some(isParentSegment),
+    "Invalid path"
+  )
+  .transform((path) =>
+    path
+      .split("/")
+      .filter((segment) => segment !== "" && !isCurrentSegment(segment))
+      .join("/")
+  );
+
 export const submitRigSchema = z.object({
   name: z.string().min(1, "Name is required").max(100),
   tagline: z.string().min(1, "Tagline is required").max(200),
   description: z.string().min(10, "Description must be at least 10 characters").max(2000),
-  category: z.enum(["ci-cd", "coding", "personal", "automation"]),
-  repository: z.object({
-    owner: z.string().min(1, "Repository owner is required"),
-    name: z.string().min(1, "Repository name is required"),
-    branch: z.string().default("main"),
-    path: z.string(), // Empty string means root directory
-  }),
+  category: z.string().min(1, "Category is required").regex(slugRegex, "Invalid category"),
+  repository: z
+    .object({
+      ...repositoryHostFields,
+      owner: z.string().min(1, "Repository owner is required"),
+      name: z.string().min(1, "Repository name is required"),
+      branch: z.string().default("main"),
+      path: repositoryPathSchema, // Empty string means root directory
+    })
+    .refine(hasRequiredHost, { message: "Git host is required", path: ["host"] }),
 });
 
 export type SubmitRigInput = z.infer<typeof submitRigSchema>;
 
+// Body of POST /api/rigs/import. Without paths the rigs found in the
+// repository are only previewed.
+export const importRigsSchema = z.object({
+  repository: z
+    .object({
+      ...repositoryHostFields,
+      owner: z.string().min(1, "Repository owner is required"),
+      name: z.string().min(1, "Repository name is required"),
+      branch: z.string().min(1).default("main"),
+    })
+    .refine(hasRequiredHost, { message: "Git host is required", path: ["host"] }),
+  paths: z.array(repositoryPathSchema).min(1, "Choose at least one rig").max(50).optional(),
+});
+
+export type ImportRigsInput = z.infer<typeof importRigsSchema>;
+
+// Query of the /api/repositories lookups the submit form makes
+export const repositoryQuerySchema = z
+  .object({
+    ...repositoryHostFields,
+    owner: z.string().regex(/^[\w.-]+(?:\/[\w.-]+)*$/, "Invalid repository owner"),
+    name: z.string().regex(/^[\w.-]+$/, "Invalid repository name"),
+    ref: z.string().min(1).optional(),
+    path: repositoryPathSchema.default(""),
+  })
+  .refine(hasRequiredHost, { message: "Git host is required", path: ["host"] });
+
+// ---------------------------------------------------------------------------
+// Rig Config Schema -- runtime validation for a rig's config.json file.
+// Mirrors the RigConfig interface in ./types.ts.
+// ---------------------------------------------------------------------------
+
+const rigRepositorySchema = z
+  .object({
+    ...repositoryHostFields,
+    owner: z.string().min(1),
+    name: z.string().min(1),
+    branch: z.string().min(1),
+    path: z.string(),
+  })
+  .refine(hasRequiredHost, { message: "Git host is required", path: ["host"] });
+
+export const rigConfigSchema = z.object({
+  name: z.string().min(1),
+  slug: z.string().regex(slugRegex, "Slug must be lowercase letters, numbers and dashes"),
+  version: z.string().regex(/^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/, "Version must be semver (e.g. 1.0.0)"),
+  tagline: z.string().min(1),
+  description: z.string().min(1),
+  category: rigCategorySchema,
+  tags: z.array(z.string()),
+  difficulty: rigDifficultySchema,
+  status: rigReadinessSchema,
+  repository: rigRepositorySchema,
+  credits: z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    url: z.url(),
+    repository: z.url().optional(),
+  }),
+  whatItDoes: z.string(),
+  useCases: z.array(z.string()),
+  prerequisites: z.array(
+    z.object({
+      name: z.string().min(1),
+      description: z.string(),
+      link: z.url().optional(),
+    })
+  ),
+  installerActions: z.array(
+    z.object({
+      label: z.string().min(1),
+      detail: z.string(),
+    })
+  ),
+  verificationSteps: z.array(
+    z.object({
+      instruction: z.string().min(1),
+      expectedResult: z.string(),
+    })
+  ),
+  files: z.array(
+    z.object({
+      name: z.string().min(1),
+      description: z.string(),
+      path: z.string().optional(),
+      upstreamUrl: z.url().optional(),
+      installPath: z.string().optional(),
+    })
+  ),
+  install: z.object({
+    powershell: z.string(),
+    bash: z.string(),
+  }),
+}) satisfies z.ZodType<RigConfig>;
+
+/**
+ * A single field-level problem found in a config.json file.
+ */
+export interface RigConfigIssue {
+  /** Dotted path to the offending field (e.g. "prerequisites.0.link") */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate parsed config.json content against the rig config schema.
+ */
+export function parseRigConfig(
+  data: unknown
+): { config: RigConfig; issues?: undefined } | { config?: undefined; issues: RigConfigIssue[] } {
+  const parsed = rigConfigSchema.safeParse(data);
+  if (parsed.success) {
+    return { config: parsed.data };
+  }
+  return {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+      message: issue.message,
+    })),
+  };
+}
+
+export const rigSortSchema = z.enum(["relevance", "newest", "updated", "name", "installs"]);
+
+export type RigSort = z.infer<typeof rigSortSchema>;
+
+/**
+ * Order used when none is given: text searches rank by relevance, browsing is
+ * newest first.
+ */
+export function defaultRigSort(filters: { q?: string }): RigSort {
+  return filters.q ? "relevance" : "newest";
+}
+
+/**
+ * Query parameters accepted by the rigs catalog (GET /api/rigs and /rigs).
+ */
+export const rigSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: rigCategorySchema.optional(),
+  tag: z.array(z.string().min(1).max(50)).max(10).default([]),
+  difficulty: rigDifficultySchema.optional(),
+  status: rigReadinessSchema.optional(),
+  sort: rigSortSchema.optional(),
+}).transform(({ sort, ...filters }) => ({
+  ...filters,
+  // Relevance needs a query to rank against
+  sort: sort && (sort !== "relevance" || filters.q) ? sort : defaultRigSort(filters),
+}));
+
+export type RigSearchFilters = z.infer<typeof rigSearchSchema>;
+
+export const publishVersionSchema = z.object({
+  changelog: z.string().trim().max(5000).optional(),
+});
+
+export type PublishVersionInput = z.infer<typeof publishVersionSchema>;
+
+/**
+ * Body of an install report sent by a rig's installer after it runs.
+ */
+export const installReportSchema = z.object({
+  installer: z.enum(["powershell", "bash"]),
+  installerVersion: z.string().trim().min(1).max(50),
+  success: z.boolean(),
+});
+
+export type InstallReportInput = z.infer<typeof installReportSchema>;
+
+/**
+ * An admin's decision on a submitted rig. Rejections must say why, since the
+ * reason is shown to the submitter.
+ */
+export const reviewRigSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("approved") }),
+  z.object({
+    status: z.literal("rejected"),
+    reason: z.string().trim().min(1, "A reason is required").max(1000),
+  }),
+]);
+
+export type ReviewRigInput = z.infer<typeof reviewRigSchema>;
+
+/**
+ * Whether `value` is a timestamp as Postgres prints one, such as
+ * "2024-05-01 12:30:00.123456", with a date that exists.
+ */
+function isTimestamp(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.\d{1,6})?$/);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
+// The sort key of each sort as Postgres prints it. A cursor's value is cast
+// back to the key's type, so anything else would fail in the database.
+const rigCursorValueSchemas: Record<RigSort, z.ZodType<string>> = {
+  relevance: z
+    .string()
+    .regex(/^-?\d+(\.\d+)?(e[-+]?\d+)?$/)
+    .refine((value) => {
+      // Within the range of a real
+      const rank = Math.abs(Number(value));
+      return rank === 0 || (rank >= 1.2e-38 && rank <= 3.4e38);
+    }),
+  newest: z.string().refine(isTimestamp),
+  updated: z.string().refine(isTimestamp),
+  // Postgres text can't hold NUL
+  name: z.string().refine((value) => !value.includes("\0")),
+  installs: z
+    .string()
+    .regex(/^-?\d{1,10}$/)
+    .refine((value) => Math.abs(Number(value)) <= 2_147_483_647),
+};
+
+/**
+ * Decoded pagination cursor: the sort key and id of the last rig on the
+ * previous page.
+ */
+export const rigCursorSchema = z
+  .tuple([rigSortSchema, z.string(), z.int32()])
+  .refine(([sort, value]) => rigCursorValueSchemas[sort].safeParse(value).success, "Invalid cursor")
+  .transform(([sort, value, id]) => ({ sort, value, id }));
+
+export type RigCursor = z.infer<typeof rigCursorSchema>;
+
+function decodeBase64Url(raw: string): string {
+  const binary = atob(raw.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Pagination parameters for GET /api/rigs. The cursor is opaque to clients;
+ * it is the `nextCursor` value from the previous page.
+ */
+export const rigPageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(24),
+  cursor: z
+    .string()
+    .max(500)
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(decodeBase64Url(raw)) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+        return z.NEVER;
+      }
+    })
+    .pipe(rigCursorSchema)
+    .optional(),
+});
+
+export type RigPageInput = z.infer<typeof rigPageSchema>;
+
 /**
  * Generate a URL-friendly slug from a name.
  */
@@ -27,80 +353,32 @@ export function nameToSlug(name: string): string {
     .replace(/^-|-$/g, "");
 }
 
-/**
- * Validate that a GitHub repo exists and contains at least one install script
- * (install.ps1 or install.sh) at the specified path.
- */
-export async function validateGitHubRepo(
-  owner: string,
-  name: string,
-  branch: string,
-  path: string
-): Promise<{ valid: boolean; error?: string }> {
-  const url = `https://api.github.com/repos/${owner}/${name}/contents/${path}?ref=${branch}`;
-
-  try {
-    const res = await fetch(url, {
-      headers: {
-        Accept: "application/vnd.github.v3+json",
-        "User-Agent": "ai-foundry",
-      },
-    });
-
-    if (res.status === 404) {
-      return {
-        valid: false,
-        error: `Repository or path not found: ${owner}/${name}/${path} (branch: ${branch})`,
-      };
-    }
-
-    if (!res.ok) {
-      return {
-        valid: false,
-        error: `GitHub API error: ${res.status} ${res.statusText}`,
-      };
-    }
-
-    const files = await res.json();
-    if (!Array.isArray(files)) {
-      return {
-        valid: false,
-        error: "The specified path is not a directory",
-      };
-    }
-
-    const fileNames = files.map((f: { name: string }) => f.name);
-    const hasPs1 = fileNames.includes("install.ps1");
-    const hasSh = fileNames.includes("install.sh");
-
-    if (!hasPs1 && !hasSh) {
-      return {
-        valid: false,
-        error: "Missing install script (install.ps1 or install.sh) in the specified path",
-      };
-    }
-
-    return { valid: true };
-  } catch {
-    return {
-      valid: false,
-      error: "Failed to reach GitHub API. Please try again.",
-    };
-  }
-}
+export type CategoryIconName = z.infer<typeof categoryIconSchema>;
+
+// Without defaults, so an update only touches the fields that were sent
+const categoryFields = {
+  label: z.string().trim().min(1, "Label is required").max(50),
+  description: z.string().trim().max(500),
+  icon: categoryIconSchema,
+  sortOrder: z.number().int(),
+};
 
 /**
- * Build install commands from repository info.
+ * A category created by an admin. The slug is permanent, since rigs and
+ * config.json files refer to it.
  */
-export function buildInstallCommands(repo: {
-  owner: string;
-  name: string;
-  branch: string;
-  path: string;
-}): { powershell: string; bash: string } {
-  const rawBase = `https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${repo.branch}/${repo.path}`;
-  return {
-    powershell: `irm ${rawBase}/install.ps1 | iex`,
-    bash: `curl -fsSL ${rawBase}/install.sh | bash`,
-  };
-}
+export const categorySchema = z.object({
+  slug: z
+    .string()
+    .max(50)
+    .regex(slugRegex, "Slug must be lowercase letters, numbers and dashes"),
+  ...categoryFields,
+  description: categoryFields.description.default(""),
+  sortOrder: categoryFields.sortOrder.default(0),
+});
+
+export type CategoryInput = z.infer<typeof categorySchema>;
+
+export const updateCategorySchema = z.object(categoryFields).partial();
+
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
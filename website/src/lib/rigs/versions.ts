@@ -0,0 +1,115 @@
+import { db } from "@/lib/db";
+import { rigVersions } from "@/lib/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { resolveCommitSha } from "./providers";
+import { buildSafetyReport } from "./scanner";
+import { fetchInstallScripts, getScriptHashes } from "./scripts";
+import { loadRigConfig, type Rig, type RigVersion } from "./types";
+
+/**
+ * Fetch every published version of a rig, newest first.
+ */
+export async function getRigVersions(rigId: number): Promise<RigVersion[]> {
+  return db
+    .select()
+    .from(rigVersions)
+    .where(eq(rigVersions.rigId, rigId))
+    .orderBy(desc(rigVersions.createdAt));
+}
+
+/**
+ * Fetch a single published version of a rig.
+ */
+export async function getRigVersion(
+  rigId: number,
+  version: string
+): Promise<RigVersion | null> {
+  const [row] = await db
+    .select()
+    .from(rigVersions)
+    .where(and(eq(rigVersions.rigId, rigId), eq(rigVersions.version, version)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Fetch the most recently published version of a rig.
+ */
+export async function getLatestRigVersion(rigId: number): Promise<RigVersion | null> {
+  const [row] = await db
+    .select()
+    .from(rigVersions)
+    .where(eq(rigVersions.rigId, rigId))
+    .orderBy(desc(rigVersions.createdAt))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Record the rig's current state as a published version: resolve its branch
+ * to a commit SHA, snapshot config.json, and safety-scan and hash the install
+ * scripts at that commit. The version number comes from config.json, so
+ * publishers bump it there before publishing.
+ */
+export async function publishRigVersion(
+  rig: Pick<Rig, "id" | "repository">,
+  { changelog, publishedBy }: { changelog: string | null; publishedBy: string }
+): Promise<
+  | { version: RigVersion; error?: undefined; status?: undefined }
+  | { version?: undefined; error: string; status: number }
+> {
+  const commit = await resolveCommitSha(rig.repository);
+  if (commit.error !== undefined) {
+    return { error: commit.error, status: 422 };
+  }
+
+  const { config, issues, error } = await loadRigConfig(rig.repository, commit.sha);
+  if (!config) {
+    return {
+      error:
+        issues.length > 0
+          ? "config.json does not match the rig config schema"
+          : error ?? "config.json not found",
+      status: 422,
+    };
+  }
+
+  const existing = await getRigVersion(rig.id, config.version);
+  if (existing) {
+    return {
+      error: `Version ${config.version} is already published. Bump the version in config.json first.`,
+      status: 409,
+    };
+  }
+
+  const fetched = await fetchInstallScripts(rig.repository, commit.sha);
+  if (fetched.error !== undefined) {
+    return { error: fetched.error, status: 422 };
+  }
+
+  const [inserted] = await db
+    .insert(rigVersions)
+    .values({
+      rigId: rig.id,
+      version: config.version,
+      commitSha: commit.sha,
+      config,
+      changelog,
+      publishedBy,
+      safetyReport: buildSafetyReport(fetched.scripts, rig.repository, commit.sha),
+      scriptHashes: getScriptHashes(fetched.scripts),
+    })
+    // A concurrent publish of the same version may have won since the check
+    .onConflictDoNothing({ target: [rigVersions.rigId, rigVersions.version] })
+    .returning();
+
+  if (!inserted) {
+    return {
+      error: `Version ${config.version} is already published. Bump the version in config.json first.`,
+      status: 409,
+    };
+  }
+  return { version: inserted };
+}